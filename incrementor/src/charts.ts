@@ -0,0 +1,99 @@
+import { type Selection } from 'd3-selection';
+import { scaleLinear, scaleOrdinal } from 'd3-scale';
+import { line } from 'd3-shape';
+import { axisBottom, axisLeft } from 'd3-axis';
+
+/**********************************************
+ * Time-series charts
+ *
+ * Plain functions that (re-)draw into a given <svg>.
+ * A series is one value per step; `undefined` where there is no value (e.g. a node that didn't exist yet).
+ **********************************************/
+
+export interface Series {
+  label: string;
+  values: (number | undefined)[];
+}
+
+const palette = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'];
+
+function extent(series: Series[]): [number, number] {
+  const all = series.flatMap((s) => s.values).filter((v): v is number => v !== undefined && Number.isFinite(v));
+  if (all.length === 0) return [0, 1];
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  return min === max ? [min - 1, max + 1] : [min, max];
+}
+
+export function drawSparkline(svg: Selection<SVGSVGElement, unknown, HTMLElement, any>, values: (number | undefined)[]) {
+  const width = +svg.attr('width');
+  const height = +svg.attr('height');
+  const xScale = scaleLinear([0, Math.max(values.length - 1, 1)], [1, width - 1]);
+  const yScale = scaleLinear(extent([{ label: '', values }]), [height - 1, 1]);
+  const path = line<number | undefined>()
+    .defined((v) => v !== undefined)
+    .x((_, i) => xScale(i))
+    .y((v) => yScale(v!));
+
+  svg
+    .selectAll('path')
+    .data([values])
+    .join('path')
+    .attr('fill', 'none')
+    .attr('stroke', 'steelblue')
+    .attr('d', path);
+}
+
+export function drawLineChart(svg: Selection<SVGSVGElement, unknown, HTMLElement, any>, series: Series[]) {
+  const width = 400;
+  const height = 200;
+  const margin = { top: 10, right: 90, bottom: 25, left: 45 };
+  svg.attr('viewBox', `0 0 ${width} ${height}`);
+
+  const steps = Math.max(...series.map((s) => s.values.length), 2);
+  const xScale = scaleLinear([0, steps - 1], [margin.left, width - margin.right]);
+  const yScale = scaleLinear(extent(series), [height - margin.bottom, margin.top]).nice();
+  const colorScale = scaleOrdinal<string, string>(palette);
+  const path = line<number | undefined>()
+    .defined((v) => v !== undefined)
+    .x((_, i) => xScale(i))
+    .y((v) => yScale(v!));
+
+  svg
+    .selectAll<SVGGElement, unknown>('.xAxis')
+    .data([null])
+    .join('g')
+    .attr('class', 'xAxis')
+    .attr('transform', `translate(0, ${height - margin.bottom})`)
+    .call(axisBottom(xScale).ticks(Math.min(steps - 1, 10)));
+  svg
+    .selectAll<SVGGElement, unknown>('.yAxis')
+    .data([null])
+    .join('g')
+    .attr('class', 'yAxis')
+    .attr('transform', `translate(${margin.left}, 0)`)
+    .call(axisLeft(yScale).ticks(5));
+
+  svg
+    .selectAll<SVGPathElement, Series>('.seriesLine')
+    .data(series, (s) => s.label)
+    .join('path')
+    .attr('class', 'seriesLine')
+    .attr('fill', 'none')
+    .attr('stroke', (s) => colorScale(s.label))
+    .attr('stroke-width', 1.5)
+    .attr('d', (s) => path(s.values));
+
+  const legendEntries = svg
+    .selectAll<SVGGElement, Series>('.legendEntry')
+    .data(series, (s) => s.label)
+    .join((enter) => {
+      const entry = enter.append('g').attr('class', 'legendEntry');
+      entry.append('rect').attr('width', 10).attr('height', 10);
+      entry.append('text').attr('x', 14).attr('y', 9).attr('font-size', 10);
+      return entry;
+    })
+    .attr('transform', (_, i) => `translate(${width - margin.right + 10}, ${margin.top + i * 15})`);
+  legendEntries.select('rect').attr('fill', (s) => colorScale(s.label));
+  legendEntries.select('text').text((s) => s.label);
+}
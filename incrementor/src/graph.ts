@@ -0,0 +1,133 @@
+/**********************************************
+ * Model data and helpers
+ **********************************************/
+
+export interface Node {
+  id: number;
+  x: number; // between 0 and 1
+  y: number; // between 0 and 1
+  label: string;
+  value: number;
+  /** Auto layout leaves pinned nodes where they are */
+  pinned?: boolean;
+}
+
+export interface Edge {
+  id: number;
+  source: Node['id'];
+  target: Node['id'];
+  type: "increment" | "decrement";
+  /** elasticity: a change of d at the source changes the target by weight * d (in the direction of `type`). Default 1 */
+  weight?: number;
+  /** number of extra pushes an impulse needs to travel along this edge. Default 0 */
+  delay?: number;
+  /** what gets through, after weighting. Default linear: everything */
+  response?: EdgeResponse;
+}
+
+/**
+ * saturation: effects approach ±limit, but never exceed it (tanh-shaped)
+ * threshold: effects smaller than the threshold don't get through at all
+ */
+export type EdgeResponse = { kind: 'linear' } | { kind: 'saturation'; limit: number } | { kind: 'threshold'; threshold: number };
+
+export function isEdgeType(value: unknown): value is Edge['type'] {
+  return value === 'increment' || value === 'decrement';
+}
+
+export interface Graph {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export function isNode(el: any): el is Node {
+  return describeNodeProblems(el).length === 0;
+}
+
+export function isEdge(el: any): el is Edge {
+  return describeEdgeProblems(el).length === 0;
+}
+
+export function getNodeById(graph: Graph, id: number) {
+  return graph.nodes.find((n) => n.id === id)!;
+}
+
+/**********************************************
+ * Validation
+ **********************************************/
+
+function describeType(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function describeNodeProblems(el: any): string[] {
+  if (typeof el !== 'object' || el === null || Array.isArray(el)) return [`must be an object, got ${describeType(el)}`];
+  const problems: string[] = [];
+  for (const key of ['id', 'x', 'y', 'value'] as const) {
+    if (typeof el[key] !== 'number') problems.push(`"${key}" must be a number, got ${describeType(el[key])}`);
+  }
+  if (typeof el.label !== 'string') problems.push(`"label" must be a string, got ${describeType(el.label)}`);
+  if (el.pinned !== undefined && typeof el.pinned !== 'boolean') problems.push(`"pinned" must be a boolean, got ${describeType(el.pinned)}`);
+  return problems;
+}
+
+function describeEdgeProblems(el: any): string[] {
+  if (typeof el !== 'object' || el === null || Array.isArray(el)) return [`must be an object, got ${describeType(el)}`];
+  const problems: string[] = [];
+  for (const key of ['id', 'source', 'target'] as const) {
+    if (typeof el[key] !== 'number') problems.push(`"${key}" must be a number, got ${describeType(el[key])}`);
+  }
+  if (!isEdgeType(el.type)) problems.push(`"type" must be "increment" or "decrement", got ${JSON.stringify(el.type)}`);
+  if (el.weight !== undefined && typeof el.weight !== 'number') problems.push(`"weight" must be a number, got ${describeType(el.weight)}`);
+  if (el.delay !== undefined && !(Number.isInteger(el.delay) && el.delay >= 0)) problems.push(`"delay" must be a whole number of steps, got ${JSON.stringify(el.delay)}`);
+  if (el.response !== undefined) problems.push(...describeResponseProblems(el.response));
+  return problems;
+}
+
+function describeResponseProblems(el: any): string[] {
+  if (el?.kind === 'linear') return [];
+  if (el?.kind === 'saturation') return typeof el.limit === 'number' && el.limit > 0 ? [] : ['"response.limit" must be a positive number'];
+  if (el?.kind === 'threshold') return typeof el.threshold === 'number' && el.threshold >= 0 ? [] : ['"response.threshold" must be a non-negative number'];
+  return [`"response.kind" must be "linear", "saturation" or "threshold", got ${JSON.stringify(el?.kind)}`];
+}
+
+/**
+ * Checks that `json` (e.g. a parsed graph.json) is a well-formed `Graph`.
+ * Returns every problem found, each prefixed with the node or edge it concerns, e.g. `edges[2] (id 5): "type" must be ...`.
+ */
+export function validateGraph(json: unknown): { graph: Graph; errors: [] } | { graph: undefined; errors: string[] } {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return { graph: undefined, errors: [`graph must be an object with "nodes" and "edges", got ${describeType(json)}`] };
+  }
+  const candidate = json as any;
+  if (!Array.isArray(candidate.nodes) || !Array.isArray(candidate.edges)) {
+    return { graph: undefined, errors: ['graph must have a "nodes" and an "edges" array'] };
+  }
+
+  const errors: string[] = [];
+  const nodeIds = new Set<number>();
+  candidate.nodes.forEach((node: any, i: number) => {
+    const name = `nodes[${i}]` + (typeof node?.id === 'number' ? ` (id ${node.id})` : '');
+    for (const problem of describeNodeProblems(node)) errors.push(`${name}: ${problem}`);
+    if (typeof node?.id !== 'number') return;
+    if (nodeIds.has(node.id)) errors.push(`${name}: duplicate id ${node.id}`);
+    nodeIds.add(node.id);
+  });
+
+  const edgeIds = new Set<number>();
+  candidate.edges.forEach((edge: any, i: number) => {
+    const name = `edges[${i}]` + (typeof edge?.id === 'number' ? ` (id ${edge.id})` : '');
+    const problems = describeEdgeProblems(edge);
+    for (const problem of problems) errors.push(`${name}: ${problem}`);
+    if (problems.length > 0) return;
+    if (edgeIds.has(edge.id)) errors.push(`${name}: duplicate id ${edge.id}`);
+    edgeIds.add(edge.id);
+    if (!nodeIds.has(edge.source)) errors.push(`${name}: source ${edge.source} is not the id of any node`);
+    if (!nodeIds.has(edge.target)) errors.push(`${name}: target ${edge.target} is not the id of any node`);
+  });
+
+  if (errors.length > 0) return { graph: undefined, errors };
+  return { graph: candidate as Graph, errors: [] };
+}
@@ -0,0 +1,125 @@
+import { validateGraph, type Graph } from './graph';
+
+/**********************************************
+ * File format
+ *
+ * What "Export graph" writes and "Import graph" reads:
+ * an envelope that says what it contains, so that files stay readable when the model changes.
+ * Same format as in the expression app (../../src/graphFile.ts); keep the two in sync.
+ *
+ * Schema versions:
+ *   1: a bare `{ nodes, edges }` graph, as exported before there was an envelope
+ *   2: `GraphFile` (current)
+ *
+ * When the model changes, bump `currentSchemaVersion` and add a migration from the previous version.
+ **********************************************/
+
+export const graphFileFormat = 'econodes-graph';
+export const currentSchemaVersion = 2;
+
+/** Which of the two apps a graph belongs to: the expression app or this one (signed edges) */
+export type AppKind = 'expression' | 'incrementor';
+
+export interface GraphMetadata {
+  title: string;
+  author: string;
+  description: string;
+  /** ISO timestamp of the export */
+  savedAt?: string;
+}
+
+export interface GraphFile {
+  format: typeof graphFileFormat;
+  schemaVersion: number;
+  app: AppKind;
+  metadata: GraphMetadata;
+  graph: unknown;
+}
+
+export function emptyMetadata(): GraphMetadata {
+  return { title: '', author: '', description: '' };
+}
+
+export function toGraphFile(graph: Graph, metadata: GraphMetadata): GraphFile {
+  return {
+    format: graphFileFormat,
+    schemaVersion: currentSchemaVersion,
+    app: 'incrementor',
+    metadata: { ...metadata, savedAt: new Date().toISOString() },
+    graph,
+  };
+}
+
+/**********************************************
+ * Migrations
+ **********************************************/
+
+type Migration = (file: any) => GraphFile;
+
+/**
+ * migrations[v] upgrades a file of schema version v to version v + 1.
+ */
+const migrations: Record<number, Migration> = {
+  1: (bareGraph: any) => ({
+    format: graphFileFormat,
+    schemaVersion: 2,
+    app: guessAppKind(bareGraph),
+    metadata: emptyMetadata(),
+    graph: bareGraph,
+  }),
+};
+
+function guessAppKind(bareGraph: any): AppKind {
+  const hasSignedEdges = Array.isArray(bareGraph?.edges) && bareGraph.edges.some((e: any) => e?.type === 'increment' || e?.type === 'decrement');
+  const hasExpressions = Array.isArray(bareGraph?.nodes) && bareGraph.nodes.some((n: any) => typeof n?.valueExpression === 'string');
+  return hasSignedEdges && !hasExpressions ? 'incrementor' : 'expression';
+}
+
+function schemaVersionOf(json: any): number {
+  if (json?.format === graphFileFormat) return json.schemaVersion;
+  return 1;
+}
+
+export function migrate(json: unknown): { file: GraphFile; errors: [] } | { file: undefined; errors: string[] } {
+  let version = schemaVersionOf(json);
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { file: undefined, errors: [`"schemaVersion" must be a positive integer, got ${JSON.stringify(version)}`] };
+  }
+  if (version > currentSchemaVersion) {
+    return { file: undefined, errors: [`file has schema version ${version}, but this app only knows up to version ${currentSchemaVersion}. Please update EcoNodes.`] };
+  }
+
+  let file: any = json;
+  while (version < currentSchemaVersion) {
+    file = migrations[version](file);
+    version += 1;
+  }
+
+  if (file.app !== 'expression' && file.app !== 'incrementor') {
+    return { file: undefined, errors: [`"app" must be "expression" or "incrementor", got ${JSON.stringify(file.app)}`] };
+  }
+  return { file: { ...file, metadata: { ...emptyMetadata(), ...file.metadata } }, errors: [] };
+}
+
+/**
+ * Reads anything the incrementor's "Export graph" ever wrote,
+ * as well as graphs converted with the expression app's "Export for incrementor".
+ */
+export function readGraphFile(json: unknown):
+  | { graph: Graph; metadata: GraphMetadata; errors: [] }
+  | { graph: undefined; errors: string[] } {
+  const { file, errors: migrationErrors } = migrate(json);
+  if (!file) return { graph: undefined, errors: migrationErrors };
+
+  if (file.app === 'expression') {
+    // edge signs depend on evaluating value expressions, which only the expression app can do
+    return {
+      graph: undefined,
+      errors: ['this is a graph of the expression app. Open it there and use "Export for incrementor" to convert it.'],
+    };
+  }
+
+  const { graph, errors } = validateGraph(file.graph);
+  if (!graph) return { graph: undefined, errors };
+  return { graph, metadata: file.metadata, errors: [] };
+}
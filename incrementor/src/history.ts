@@ -0,0 +1,78 @@
+/**********************************************
+ * Undo/redo
+ *
+ * Keeps a snapshot of the state *after* every undoable event.
+ * Snapshots are taken after the fact, because some changes (like dragging a node)
+ * already touch the data before their event reaches `updateApp`.
+ *
+ * The expression app has an identical copy in ../../src/history.ts; the two apps build separately.
+ * Keep both copies the same: change one, change the other in the same commit.
+ **********************************************/
+
+interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+  /** consecutive entries with the same key are merged into one, e.g. all moveNode events of one drag */
+  coalesceKey?: string;
+}
+
+export class UndoHistory<T> {
+  private entries: HistoryEntry<T>[] = [];
+  private position = -1;
+  private maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  /** Forgets everything; `snapshot` becomes the state that can't be undone any further */
+  reset(label: string, snapshot: T) {
+    this.entries = [{ label, snapshot: structuredClone(snapshot) }];
+    this.position = 0;
+  }
+
+  record(label: string, snapshot: T, coalesceKey?: string) {
+    // recording after an undo drops the undone entries
+    this.entries = this.entries.slice(0, this.position + 1);
+
+    const last = this.entries[this.position];
+    if (coalesceKey !== undefined && last?.coalesceKey === coalesceKey) {
+      last.snapshot = structuredClone(snapshot);
+      return;
+    }
+
+    this.entries.push({ label, snapshot: structuredClone(snapshot), coalesceKey });
+    if (this.entries.length > this.maxEntries) this.entries.shift();
+    this.position = this.entries.length - 1;
+  }
+
+  canUndo() {
+    return this.position > 0;
+  }
+
+  canRedo() {
+    return this.position < this.entries.length - 1;
+  }
+
+  undo(): T | undefined {
+    if (!this.canUndo()) return undefined;
+    return this.jumpTo(this.position - 1);
+  }
+
+  redo(): T | undefined {
+    if (!this.canRedo()) return undefined;
+    return this.jumpTo(this.position + 1);
+  }
+
+  /** Returns a copy of the state after entry `index`, so that the stored snapshot stays untouched */
+  jumpTo(index: number): T | undefined {
+    const entry = this.entries[index];
+    if (!entry) return undefined;
+    this.position = index;
+    return structuredClone(entry.snapshot);
+  }
+
+  list() {
+    return this.entries.map((entry, index) => ({ index, label: entry.label, current: index === this.position }));
+  }
+}
@@ -0,0 +1,168 @@
+import { getNodeById, type Edge, type Graph, type Node } from './graph';
+
+/**********************************************
+ * Impulse propagation
+ *
+ * An impulse is a change that just happened at a node.
+ * Every push moves each impulse one edge further downstream: the targets change by what the edges let through,
+ * and those changes are the next impulses.
+ * Impulses on delayed edges stay in transit for `delay` more pushes before they arrive.
+ **********************************************/
+
+export interface Impulse {
+  nodeId: Node['id'];
+  delta: number;
+  /** pushes left until this impulse arrives at `nodeId`; missing or 0 means it has arrived */
+  inTransit?: number;
+}
+
+export interface ImpulseChange {
+  nodeId: Node['id'];
+  delta: number;
+  edge?: Edge;
+}
+
+/**
+ * The change an impulse of `delta` at the edge's source causes at its target.
+ */
+export function transmit(edge: Edge, delta: number): number {
+  const scaled = (edge.type === 'increment' ? 1 : -1) * (edge.weight ?? 1) * delta;
+  const response = edge.response ?? { kind: 'linear' };
+  switch (response.kind) {
+    case 'linear':
+      return scaled;
+    case 'saturation':
+      return response.limit * Math.tanh(scaled / response.limit);
+    case 'threshold':
+      return Math.abs(scaled) >= response.threshold ? scaled : 0;
+  }
+}
+
+export function hasArrived(impulse: Impulse) {
+  return !impulse.inTransit;
+}
+
+/**
+ * One push: changes the values in `graph` and returns the next impulses, plus every change made, for logging.
+ * With `damping` < 1, every hop lets through only that fraction of the change.
+ */
+export function pushImpulses(graph: Graph, impulses: Impulse[], damping = 1): { impulses: Impulse[]; changes: ImpulseChange[] } {
+  const next: Impulse[] = [];
+  const changes: ImpulseChange[] = [];
+
+  for (const impulse of impulses) {
+    if (impulse.inTransit && impulse.inTransit > 1) {
+      next.push({ ...impulse, inTransit: impulse.inTransit - 1 });
+      continue;
+    }
+    if (impulse.inTransit === 1) {
+      getNodeById(graph, impulse.nodeId).value += impulse.delta;
+      changes.push({ nodeId: impulse.nodeId, delta: impulse.delta });
+      next.push({ nodeId: impulse.nodeId, delta: impulse.delta });
+      continue;
+    }
+
+    for (const edge of graph.edges.filter((e) => e.source === impulse.nodeId)) {
+      const delta = damping * transmit(edge, impulse.delta);
+      if (delta === 0) continue;
+      if (edge.delay) {
+        next.push({ nodeId: edge.target, delta, inTransit: edge.delay });
+        continue;
+      }
+      getNodeById(graph, edge.target).value += delta;
+      changes.push({ nodeId: edge.target, delta, edge });
+      next.push({ nodeId: edge.target, delta });
+    }
+  }
+  return { impulses: next, changes };
+}
+
+/**********************************************
+ * Running until settled
+ *
+ * Pushes until nothing is left to push, or until it's clear that won't happen:
+ *   settled:     no impulses left (or only negligible ones)
+ *   oscillating: the impulses repeat and the values swing back and forth
+ *   drifting:    the impulses repeat and the values keep moving in one direction (e.g. a reinforcing loop at weight 1)
+ *   diverging:   the impulses grow without bound
+ *   maxSteps:    none of the above within the allowed number of steps
+ **********************************************/
+
+export type SettleOutcome = 'settled' | 'oscillating' | 'drifting' | 'diverging' | 'maxSteps';
+
+export interface SettleStep {
+  step: number;
+  changes: ImpulseChange[];
+  /** impulses left after this step, arrived or in transit */
+  impulseCount: number;
+  /** sum of the absolute deltas of those impulses */
+  magnitude: number;
+  /** value of every node after this step, by node id */
+  values: Record<Node['id'], number>;
+}
+
+export interface SettleResult {
+  outcome: SettleOutcome;
+  steps: SettleStep[];
+  /** for `oscillating` and `drifting`: number of steps after which the impulses repeat */
+  period?: number;
+  /** what's left to push; empty if settled */
+  impulses: Impulse[];
+}
+
+/** impulses smaller than this count as gone */
+const negligible = 1e-9;
+/** growing this much beyond the initial impulses counts as unbounded */
+const divergenceFactor = 1e6;
+
+function magnitudeOf(impulses: Impulse[]) {
+  return impulses.reduce((sum, i) => sum + Math.abs(i.delta), 0);
+}
+
+/**
+ * Identifies the impulses by where they are and how big they are; equal keys mean the propagation repeats itself.
+ */
+function patternKey(impulses: Impulse[]) {
+  return impulses
+    .map((i) => `${i.nodeId}:${i.inTransit ?? 0}:${i.delta.toPrecision(9)}`)
+    .sort()
+    .join('|');
+}
+
+export function settleImpulses(graph: Graph, impulses: Impulse[], maxSteps: number, damping = 1): SettleResult {
+  const steps: SettleStep[] = [];
+  const initialMagnitude = Math.max(magnitudeOf(impulses), negligible);
+  const seen = new Map<string, number>([[patternKey(impulses), 0]]);
+
+  let current = impulses;
+  for (let step = 1; step <= maxSteps; step++) {
+    const pushed = pushImpulses(graph, current, damping);
+    current = pushed.impulses.filter((i) => Math.abs(i.delta) >= negligible);
+    const magnitude = magnitudeOf(current);
+    steps.push({
+      step,
+      changes: pushed.changes,
+      impulseCount: current.length,
+      magnitude,
+      values: Object.fromEntries(graph.nodes.map((n) => [n.id, n.value])),
+    });
+
+    if (current.length === 0) return { outcome: 'settled', steps, impulses: [] };
+    if (!Number.isFinite(magnitude) || magnitude > divergenceFactor * initialMagnitude) return { outcome: 'diverging', steps, impulses: current };
+
+    const key = patternKey(current);
+    const firstSeen = seen.get(key);
+    if (firstSeen !== undefined) {
+      const period = step - firstSeen;
+      // over one period, every node gets the same changes again; if they add up to zero, values just swing back and forth
+      const netChange = new Map<Node['id'], number>();
+      for (const { changes } of steps.slice(-period)) {
+        for (const change of changes) netChange.set(change.nodeId, (netChange.get(change.nodeId) ?? 0) + change.delta);
+      }
+      const swingsBack = Array.from(netChange.values()).every((delta) => Math.abs(delta) < negligible);
+      return { outcome: swingsBack ? 'oscillating' : 'drifting', steps, period, impulses: current };
+    }
+    seen.set(key, step);
+  }
+  return { outcome: 'maxSteps', steps, impulses: current };
+}
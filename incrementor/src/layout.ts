@@ -0,0 +1,176 @@
+/**********************************************
+ * Automatic layout
+ *
+ * Plain functions that compute new positions in the same 0..1 space as `Node.x`/`Node.y`.
+ * They don't move anything themselves, so the caller can animate towards the result.
+ * Pinned nodes keep their position and are only pushed against by the others.
+ *
+ * Identical to ../../src/layout.ts, since the two apps build separately.
+ * Any change here goes into that copy as well, in the same commit.
+ **********************************************/
+
+export interface LayoutNode {
+  id: number;
+  x: number;
+  y: number;
+  pinned?: boolean;
+}
+
+export interface LayoutEdge {
+  source: number;
+  target: number;
+}
+
+export type Positions = Map<LayoutNode['id'], { x: number; y: number }>;
+
+export type LayoutAlgorithm = 'force' | 'layered';
+
+/** Distance kept from the border, so that nodes and their labels stay visible */
+const margin = 0.08;
+
+function clamp(value: number) {
+  return Math.min(1 - margin, Math.max(margin, value));
+}
+
+export function computeLayout(algorithm: LayoutAlgorithm, nodes: LayoutNode[], edges: LayoutEdge[]): Positions {
+  return algorithm === 'force' ? forceLayout(nodes, edges) : layeredLayout(nodes, edges);
+}
+
+/**
+ * Fruchterman-Reingold: all nodes repel each other, connected nodes attract each other,
+ * and the step size shrinks every iteration until the layout freezes.
+ * Deterministic, so that running it twice gives the same picture.
+ */
+export function forceLayout(nodes: LayoutNode[], edges: LayoutEdge[], iterations = 300): Positions {
+  const positions: Positions = new Map(nodes.map((n) => [n.id, { x: n.x, y: n.y }]));
+  if (nodes.length === 0) return positions;
+
+  // nodes on top of each other (e.g. all created at the center) would never separate
+  nodes.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / nodes.length;
+    if (!node.pinned) positions.set(node.id, { x: node.x + 0.01 * Math.cos(angle), y: node.y + 0.01 * Math.sin(angle) });
+  });
+
+  const idealDistance = 0.6 / Math.sqrt(nodes.length);
+  const gravity = 1;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const temperature = 0.1 * (1 - iteration / iterations);
+    const displacement = new Map(nodes.map((n) => [n.id, { x: 0, y: 0 }]));
+
+    for (const a of nodes) {
+      for (const b of nodes) {
+        if (a.id === b.id) continue;
+        const pa = positions.get(a.id)!;
+        const pb = positions.get(b.id)!;
+        const dx = pa.x - pb.x;
+        const dy = pa.y - pb.y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (idealDistance * idealDistance) / distance;
+        displacement.get(a.id)!.x += (dx / distance) * force;
+        displacement.get(a.id)!.y += (dy / distance) * force;
+      }
+    }
+
+    for (const edge of edges) {
+      if (edge.source === edge.target) continue;
+      const ps = positions.get(edge.source)!;
+      const pt = positions.get(edge.target)!;
+      const dx = ps.x - pt.x;
+      const dy = ps.y - pt.y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / idealDistance;
+      displacement.get(edge.source)!.x -= (dx / distance) * force;
+      displacement.get(edge.source)!.y -= (dy / distance) * force;
+      displacement.get(edge.target)!.x += (dx / distance) * force;
+      displacement.get(edge.target)!.y += (dy / distance) * force;
+    }
+
+    for (const node of nodes) {
+      if (node.pinned) continue;
+      const position = positions.get(node.id)!;
+      // a weak pull towards the center keeps unconnected parts from drifting into the corners
+      displacement.get(node.id)!.x -= (position.x - 0.5) * gravity;
+      displacement.get(node.id)!.y -= (position.y - 0.5) * gravity;
+      const { x: dx, y: dy } = displacement.get(node.id)!;
+      const length = Math.max(Math.hypot(dx, dy), 1e-9);
+      const step = Math.min(length, temperature);
+      positions.set(node.id, { x: clamp(position.x + (dx / length) * step), y: clamp(position.y + (dy / length) * step) });
+    }
+  }
+
+  for (const node of nodes) {
+    if (node.pinned) positions.set(node.id, { x: node.x, y: node.y });
+  }
+  return positions;
+}
+
+/**
+ * Left-to-right layers along the edge directions: every node is one layer right of the furthest node it depends on.
+ * Edges that close a cycle are ignored for that. Within a layer, nodes are sorted by the average
+ * position of their neighbours, which untangles most crossings.
+ */
+export function layeredLayout(nodes: LayoutNode[], edges: LayoutEdge[]): Positions {
+  const order = acyclicOrder(nodes, edges);
+  const rank = new Map(order.map((id, i) => [id, i]));
+  const forwardEdges = edges.filter((e) => rank.get(e.source)! < rank.get(e.target)!);
+
+  const layerOf = new Map<number, number>();
+  for (const id of order) {
+    const parents = forwardEdges.filter((e) => e.target === id).map((e) => layerOf.get(e.source)! + 1);
+    layerOf.set(id, Math.max(0, ...parents));
+  }
+  const layerCount = Math.max(0, ...layerOf.values()) + 1;
+  const layers: number[][] = Array.from({ length: layerCount }, () => []);
+  for (const node of nodes) layers[layerOf.get(node.id)!].push(node.id);
+
+  // barycenter sweeps: down using parents, up using children
+  const indexInLayer = () => new Map(layers.flatMap((layer) => layer.map((id, i) => [id, i / Math.max(layer.length - 1, 1)] as const)));
+  for (let sweep = 0; sweep < 4; sweep++) {
+    const down = sweep % 2 === 0;
+    const index = indexInLayer();
+    for (const layer of layers) {
+      const barycenter = new Map(
+        layer.map((id) => {
+          const neighbours = forwardEdges.filter((e) => (down ? e.target === id : e.source === id)).map((e) => index.get(down ? e.source : e.target)!);
+          return [id, neighbours.length > 0 ? neighbours.reduce((a, b) => a + b, 0) / neighbours.length : index.get(id)!];
+        })
+      );
+      layer.sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+    }
+  }
+
+  const positions: Positions = new Map();
+  layers.forEach((layer, layerIndex) => {
+    const x = layerCount === 1 ? 0.5 : margin + (layerIndex / (layerCount - 1)) * (1 - 2 * margin);
+    layer.forEach((id, i) => {
+      const y = margin + ((i + 0.5) / layer.length) * (1 - 2 * margin);
+      positions.set(id, { x, y });
+    });
+  });
+  for (const node of nodes) {
+    if (node.pinned) positions.set(node.id, { x: node.x, y: node.y });
+  }
+  return positions;
+}
+
+/**
+ * Depth-first order in which every node comes after its parents, except along edges that close a cycle.
+ */
+function acyclicOrder(nodes: LayoutNode[], edges: LayoutEdge[]): number[] {
+  const visited = new Set<number>();
+  const finished: number[] = [];
+  const hasParent = new Set(edges.filter((e) => e.source !== e.target).map((e) => e.target));
+
+  function visit(id: number) {
+    if (visited.has(id)) return;
+    visited.add(id);
+    for (const edge of edges) {
+      if (edge.source === id) visit(edge.target);
+    }
+    finished.push(id);
+  }
+  // start from the roots, so that cycles are entered where the rest of the graph leads into them
+  for (const node of nodes) if (!hasParent.has(node.id)) visit(node.id);
+  for (const node of nodes) visit(node.id);
+  return finished.reverse();
+}
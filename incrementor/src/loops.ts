@@ -0,0 +1,137 @@
+import type { Edge, Graph, Node } from './graph';
+
+/**********************************************
+ * Feedback loops
+ *
+ * A loop is an elementary cycle: a closed path along the edges that visits no node twice.
+ * Its polarity is the product of the signs of its edges:
+ *   reinforcing (R): an even number of decrements - a change comes back around amplified in the same direction
+ *   balancing (B):   an odd number of decrements - a change comes back around working against itself
+ * A negative weight flips an edge's sign, just like a decrement does.
+ **********************************************/
+
+export type LoopPolarity = 'reinforcing' | 'balancing';
+
+export interface FeedbackLoop {
+  /** R1, R2, ... and B1, B2, ..., shortest loops first */
+  name: string;
+  polarity: LoopPolarity;
+  /** in the order the loop runs through them, starting with the node with the smallest id */
+  nodeIds: Node['id'][];
+  /** `edgeIds[i]` runs from `nodeIds[i]` to the next node */
+  edgeIds: Edge['id'][];
+}
+
+/** Larger graphs can have exponentially many loops; listing more than this isn't useful */
+export const maxLoops = 200;
+
+function edgeSign(edge: Edge) {
+  return (edge.type === 'increment' ? 1 : -1) * Math.sign(edge.weight ?? 1);
+}
+
+export function loopPolarity(edges: Edge[]): LoopPolarity {
+  return edges.reduce((sign, edge) => sign * edgeSign(edge), 1) >= 0 ? 'reinforcing' : 'balancing';
+}
+
+/** Nodes reachable from `start` along `next`, only passing through nodes in `allowed` */
+function reachable(start: Node['id'], next: Map<Node['id'], Node['id'][]>, allowed: (id: Node['id']) => boolean) {
+  const seen = new Set<Node['id']>([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    for (const id of next.get(queue.pop()!) ?? []) {
+      if (allowed(id) && !seen.has(id)) {
+        seen.add(id);
+        queue.push(id);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * All elementary cycles, up to `maxLoops`, by Johnson's algorithm.
+ * Every cycle is found exactly once: from its node with the smallest id, only going through nodes with larger ids.
+ * The search stays inside the strongly connected component of the start node, and blocks nodes that
+ * can't lead back to the start until that changes, so it takes polynomial time per loop found.
+ * In a graph without loops every component is a single node, and nothing is searched at all.
+ */
+export function findLoops(graph: Graph): FeedbackLoop[] {
+  const cycles: Edge[][] = [];
+  const outgoing = new Map<Node['id'], Edge[]>();
+  const successors = new Map<Node['id'], Node['id'][]>();
+  const predecessors = new Map<Node['id'], Node['id'][]>();
+  for (const edge of graph.edges) {
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge]);
+    successors.set(edge.source, [...(successors.get(edge.source) ?? []), edge.target]);
+    predecessors.set(edge.target, [...(predecessors.get(edge.target) ?? []), edge.source]);
+  }
+  const startIds = graph.nodes.map((n) => n.id).sort((a, b) => a - b);
+
+  for (const start of startIds) {
+    if (cycles.length >= maxLoops) break;
+    const allowed = (id: Node['id']) => id >= start;
+    const downstream = reachable(start, successors, allowed);
+    const component = new Set(Array.from(reachable(start, predecessors, allowed)).filter((id) => downstream.has(id)));
+    const hasSelfLoop = (outgoing.get(start) ?? []).some((e) => e.target === start);
+    if (component.size === 1 && !hasSelfLoop) continue;
+
+    const path: Edge[] = [];
+    const blocked = new Set<Node['id']>();
+    // blockedBy.get(w): nodes to unblock once w is unblocked, because they only failed by running into w
+    const blockedBy = new Map<Node['id'], Set<Node['id']>>();
+    const unblock = (id: Node['id']) => {
+      blocked.delete(id);
+      const waiting = blockedBy.get(id);
+      blockedBy.delete(id);
+      for (const other of waiting ?? []) if (blocked.has(other)) unblock(other);
+    };
+
+    const circuit = (nodeId: Node['id']): boolean => {
+      let found = false;
+      blocked.add(nodeId);
+      const edges = (outgoing.get(nodeId) ?? []).filter((e) => component.has(e.target));
+      for (const edge of edges) {
+        if (cycles.length >= maxLoops) return found;
+        if (edge.target === start) {
+          cycles.push([...path, edge]);
+          found = true;
+        } else if (!blocked.has(edge.target)) {
+          path.push(edge);
+          if (circuit(edge.target)) found = true;
+          path.pop();
+        }
+      }
+      if (found) unblock(nodeId);
+      else for (const edge of edges) blockedBy.set(edge.target, (blockedBy.get(edge.target) ?? new Set()).add(nodeId));
+      return found;
+    };
+    circuit(start);
+  }
+
+  cycles.sort((a, b) => a.length - b.length);
+  const counts: Record<LoopPolarity, number> = { reinforcing: 0, balancing: 0 };
+  return cycles.map((edges) => {
+    const polarity = loopPolarity(edges);
+    counts[polarity] += 1;
+    return {
+      name: `${polarity === 'reinforcing' ? 'R' : 'B'}${counts[polarity]}`,
+      polarity,
+      nodeIds: edges.map((e) => e.source),
+      edgeIds: edges.map((e) => e.id),
+    };
+  });
+}
+
+/**
+ * Loops only depend on which edges there are and their signs; when this key stays the same, so do the loops.
+ */
+export function loopsKey(graph: Graph) {
+  return graph.edges.map((e) => `${e.id}:${e.source}>${e.target}${edgeSign(e) >= 0 ? '+' : '-'}`).join(',');
+}
+
+/**
+ * Loop names change whenever the graph does, so a loop is remembered by its edges.
+ */
+export function sameLoop(loop: FeedbackLoop, edgeIds: Edge['id'][]) {
+  return loop.edgeIds.length === edgeIds.length && loop.edgeIds.every((id) => edgeIds.includes(id));
+}
@@ -1,7 +1,15 @@
 import { select, type Selection } from 'd3-selection';
-import { scaleLinear } from 'd3-scale';
+import { scaleLinear, scaleSqrt } from 'd3-scale';
 import { drag } from 'd3-drag';
 import { zoom } from 'd3-zoom';
+import { drawLineChart, drawSparkline } from './charts';
+import { getNodeById, isEdge, isEdgeType, isNode, type Edge, type EdgeResponse, type Graph, type Node } from './graph';
+import { emptyMetadata, migrate, readGraphFile, toGraphFile, type GraphFile, type GraphMetadata } from './graphFile';
+import { UndoHistory } from './history';
+import { hasArrived, pushImpulses, settleImpulses, type Impulse, type ImpulseChange, type SettleResult } from './impulses';
+import { computeLayout, type LayoutAlgorithm, type Positions } from './layout';
+import { findLoops, loopsKey, maxLoops, sameLoop, type FeedbackLoop } from './loops';
+import { createModelId, deleteModel, getCurrentModelId, listModels, loadModel, saveModel, setCurrentModelId, type ModelSummary } from './storage';
 
 function unique<T>(lst: T[]): T[] {
   return Array.from(new Set(lst));
@@ -11,48 +19,6 @@ function unique<T>(lst: T[]): T[] {
  * Model data and helpers
  **********************************************/
 
-interface Node {
-  id: number;
-  x: number; // between 0 and 1
-  y: number; // between 0 and 1
-  label: string;
-  value: number;
-}
-
-interface Edge {
-  id: number;
-  source: Node['id'];
-  target: Node['id'];
-  type: "increment" | "decrement";
-}
-
-interface Graph {
-  nodes: Node[];
-  edges: Edge[];
-}
-
-function isNode(el: any): el is Node {
-  return (
-    typeof el === 'object' &&
-    el !== null &&
-    typeof el.id === 'number' &&
-    typeof el.x === 'number' &&
-    typeof el.y === 'number' &&
-    typeof el.label === 'string' &&
-    typeof el.value === 'number'
-  );
-}
-
-function isEdge(el: any): el is Edge {
-  return (
-    typeof el === 'object' &&
-    el !== null &&
-    typeof el.source === 'number' &&
-    typeof el.target === 'number' &&
-    (el.type === 'increment' || el.type === 'decrement')
-  );
-}
-
 const data: Graph = {
   nodes: [
     { id: 1, x: 0.5, y: 0.25, label: 'A', value: 1 },
@@ -65,18 +31,33 @@ const data: Graph = {
   ],
 };
 
-function getNodeById(graph: Graph, id: number) {
-  return graph.nodes.find((n) => n.id === id)!;
+function readJsonFile(file: File, onJson: (json: unknown) => void) {
+  file.text().then((text) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      logImportErrors([`${file.name} is not valid JSON: ${(error as Error).message}`]);
+      return;
+    }
+    onJson(json);
+  });
 }
 
-function downloadJson(graph: Graph) {
-  const dataStr = JSON.stringify(graph, null, 2);
+function logImportErrors(errors: string[]) {
+  const logContainer = select('#logContainer');
+  logContainer.append('p').style('color', 'red').text(`Import failed (${errors.length} problems):`);
+  for (const error of errors) logContainer.append('p').style('color', 'red').text(`- ${error}`);
+}
+
+function downloadJson(file: GraphFile) {
+  const dataStr = JSON.stringify(file, null, 2);
   const blob = new Blob([dataStr], { type: "application/json" });
   const url = URL.createObjectURL(blob);
 
   const a = document.createElement("a");
   a.href = url;
-  a.download = "graph.json";
+  a.download = `${file.metadata.title || 'graph'}.json`;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
@@ -91,52 +72,362 @@ function downloadJson(graph: Graph) {
 
 type Event =
   | { type: 'init' }
-  | { type: 'selectNode'; node?: Node }
-  | { type: 'moveNode'; node: Node }
+  | { type: 'selectNode'; node?: Node; additive?: boolean }
+  | { type: 'selectNodes'; ids: Node['id'][]; additive: boolean }
+  | { type: 'deleteSelection' }
+  | { type: 'copySelection' }
+  | { type: 'pasteClipboard' }
+  | { type: 'moveNode'; node: Node; dragId?: number }
   | { type: 'renameNode'; node: Node }
   | { type: 'incrementNode'; node: Node }
   | { type: 'decrementNode'; node: Node }
   | { type: 'deleteNode'; node: Node }
   | { type: 'createNode'; node: Node }
   | { type: 'pushImpulsesDownstream' }
+  | { type: 'settleImpulses'; maxSteps: number; damping: number }
   | { type: 'removeImpulses'}
+  | { type: 'impulseAnimationEnd' }
+  | { type: 'setAnimation'; enabled: boolean; speed: number }
   | { type: 'selectEdge'; edge?: Edge }
+  | { type: 'selectLoop'; edgeIds?: Edge['id'][] }
   | { type: 'updateEdge'; edge: Edge }
   | { type: 'deleteEdge'; edge: Edge }
   | { type: 'createEdge'; edge: Edge }
-  | { type: "exportGraph"; };
-
-interface Impulse {
-  nodeId: number;
-  delta: number;
+  | { type: 'pinNode'; node: Node; pinned: boolean }
+  | { type: 'layoutGraph'; algorithm: LayoutAlgorithm }
+  | { type: 'layoutFrame' }
+  | { type: 'toggleChartNode'; nodeId: Node['id'] }
+  | { type: "exportGraph"; }
+  | { type: 'updateMetadata'; metadata: GraphMetadata }
+  | { type: 'newModel' }
+  | { type: 'openModel'; id: string }
+  | { type: 'duplicateModel'; id: string }
+  | { type: 'renameModel'; id: string; name: string }
+  | { type: 'deleteModel'; id: string }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jumpToHistory'; index: number }
+  | { type: 'importGraph'; json: unknown };
+
+function formatNumber(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(3);
 }
 
+/** Value of every node, by node id */
+type NodeValues = Record<Node['id'], number>;
+
 interface AppState {
   data: Graph;
+  /** the node or edge shown in its form: the one selected last */
   selected?: Node | Edge;
+  /** every selected node, including `selected` if it is a node; see `setSelection` */
+  selectedIds: Node['id'][];
+  /** copied nodes and the edges among them, see `pasteGraph` */
+  clipboard: Graph;
   impulses: Impulse[];
+  /** particles travelling along the edges of the last push, see `drawImpulseAnimation` */
+  impulseAnimation?: { changes: ImpulseChange[]; start: DOMHighResTimeStamp };
+  /** speed: 1 (slow) to 5 (fast) */
+  animation: { enabled: boolean; speed: number };
+  /** the last "Run until settled", shown step by step in the run table */
+  settleResult?: SettleResult;
+  /** edges of the feedback loop highlighted in the graph, see ./loops.ts */
+  selectedLoop?: Edge['id'][];
+  /** nodes moving from `from` to `to`, see `layoutGraph` */
+  layout?: { from: Positions; to: Positions; frame: number };
+  /** a snapshot of all values after every event that changed one, see `recordValueHistory` */
+  valueHistory: NodeValues[];
+  /** nodes plotted in the chart panel */
+  chartNodeIds: Node['id'][];
+  metadata: GraphMetadata;
+  /** id under which the graph is autosaved, see ./storage.ts */
+  modelId: string;
 }
 
 function isSelected(element: Node | Edge) {
+  if (isNode(element)) return appState.selectedIds.includes(element.id);
   if (!appState.selected) return false;
-  if (isNode(element) && isNode(appState.selected)) return element.id === appState.selected.id;
   if (isEdge(element) && isEdge(appState.selected)) return element.source === appState.selected.source && element.target === appState.selected.target;
   return false;
 }
 
+function setSelection(ids: Node['id'][]) {
+  appState.selectedIds = ids.filter((id) => appState.data.nodes.some((n) => n.id === id));
+  const lastId = appState.selectedIds[appState.selectedIds.length - 1];
+  appState.selected = appState.data.nodes.find((n) => n.id === lastId);
+}
+
+function deleteNodes(ids: Node['id'][], graph: Graph) {
+  graph.nodes = graph.nodes.filter((n) => !ids.includes(n.id));
+  graph.edges = graph.edges.filter((e) => !ids.includes(e.source) && !ids.includes(e.target));
+}
+
+/**
+ * Adds copies of `copied`'s nodes and edges with new ids, shifted a little so that they don't hide the originals.
+ * Returns the ids of the new nodes.
+ */
+function pasteGraph(copied: Graph, graph: Graph): Node['id'][] {
+  let nextNodeId = graph.nodes.length > 0 ? Math.max(...graph.nodes.map((n) => n.id)) + 1 : 1;
+  let nextEdgeId = graph.edges.length > 0 ? Math.max(...graph.edges.map((e) => e.id)) + 1 : 1;
+  const newIds = new Map<Node['id'], Node['id']>();
+  for (const node of copied.nodes) {
+    newIds.set(node.id, nextNodeId);
+    graph.nodes.push({ ...node, id: nextNodeId++, x: Math.min(node.x + 0.05, 1), y: Math.min(node.y + 0.05, 1) });
+  }
+  for (const edge of copied.edges) {
+    graph.edges.push({ ...edge, id: nextEdgeId++, source: newIds.get(edge.source)!, target: newIds.get(edge.target)! });
+  }
+  return Array.from(newIds.values());
+}
+
+function currentValues(graph: Graph): NodeValues {
+  const values: NodeValues = {};
+  for (const node of graph.nodes) values[node.id] = node.value;
+  return values;
+}
+
 const appState: AppState = {
   data,
   selected: undefined,
-  impulses: []
+  selectedIds: [],
+  clipboard: { nodes: [], edges: [] },
+  impulses: [],
+  animation: { enabled: true, speed: 3 },
+  valueHistory: [currentValues(data)],
+  chartNodeIds: [],
+  metadata: emptyMetadata(),
+  modelId: createModelId(),
 };
 
+const maxValueHistory = 500;
+
+function recordValueHistory() {
+  const values = currentValues(appState.data);
+  const last = appState.valueHistory[appState.valueHistory.length - 1];
+  const changed = appState.data.nodes.some((n) => last?.[n.id] !== values[n.id]);
+  if (!changed) return;
+  appState.valueHistory.push(values);
+  if (appState.valueHistory.length > maxValueHistory) appState.valueHistory.shift();
+}
+
+function nodeHistory(nodeId: Node['id']) {
+  return appState.valueHistory.map((values) => values[nodeId]);
+}
+
+const layoutFrames = 20;
+const layoutFrameInterval = 25;
+let layoutTimer: number | undefined;
+/** counts layout runs, so that all frames of one run become one undo entry */
+let layoutRun = 0;
+
+function stopLayout() {
+  clearInterval(layoutTimer);
+  appState.layout = undefined;
+}
+
+/** loops only change with the edges, see `loopsKey`; moving nodes or pushing impulses reuses them */
+let loopCache: { key: string; loops: FeedbackLoop[] } | undefined;
+
+function currentLoops(graph: Graph) {
+  const key = loopsKey(graph);
+  if (loopCache?.key !== key) loopCache = { key, loops: findLoops(graph) };
+  return loopCache.loops;
+}
+
+let impulseAnimationRequest: number | undefined;
+
+/** in ms */
+function impulseDuration() {
+  return 1500 / appState.animation.speed;
+}
+
+function impulseProgress(animation: NonNullable<AppState['impulseAnimation']>) {
+  return Math.min(1, (performance.now() - animation.start) / impulseDuration());
+}
+
+/**
+ * Runs outside of `updateApp`: frames only move particles, so they redraw just the particle layer.
+ * The end of the animation goes through `updateApp` once, to clear it from the state.
+ */
+function animateImpulses() {
+  const animation = appState.impulseAnimation;
+  if (!animation) return;
+  if (impulseProgress(animation) >= 1) {
+    impulseAnimationRequest = undefined;
+    updateApp({ type: 'impulseAnimationEnd' });
+    return;
+  }
+  drawImpulseAnimation(appState.data, rootGroup, animation);
+  impulseAnimationRequest = requestAnimationFrame(animateImpulses);
+}
+
+function stopImpulseAnimation() {
+  if (impulseAnimationRequest !== undefined) cancelAnimationFrame(impulseAnimationRequest);
+  impulseAnimationRequest = undefined;
+  appState.impulseAnimation = undefined;
+}
+
+/**
+ * Swaps in a different graph (imported, opened from storage or new) and resets everything that belonged to the old one.
+ */
+function replaceGraph(modelId: string, graph: Graph, metadata: GraphMetadata) {
+  undoHistory.reset('Open model', graph);
+  stopLayout();
+  stopImpulseAnimation();
+  appState.modelId = modelId;
+  appState.data = graph;
+  appState.metadata = metadata;
+  setSelection([]);
+  appState.impulses = [];
+  appState.selectedLoop = undefined;
+  appState.settleResult = undefined;
+  appState.valueHistory = [currentValues(graph)];
+  appState.chartNodeIds = [];
+}
+
+function openStoredModel(id: string) {
+  const stored = readGraphFile(loadModel(id));
+  if (!stored.graph) {
+    logImportErrors(stored.errors);
+    return;
+  }
+  replaceGraph(id, stored.graph, stored.metadata);
+}
+
+const undoHistory = new UndoHistory<Graph>(100);
+undoHistory.reset('Start', appState.data);
+
+/**
+ * Label for the history list; `undefined` for events that can't be undone.
+ */
+function describeUndoable(event: Event): string | undefined {
+  switch (event.type) {
+    case 'createNode':
+      return `Create "${event.node.label}"`;
+    case 'deleteNode':
+      return `Delete "${event.node.label}"`;
+    case 'deleteSelection':
+      return `Delete ${appState.selectedIds.length} node(s)`;
+    case 'pasteClipboard':
+      return `Paste ${appState.clipboard.nodes.length} node(s)`;
+    case 'moveNode':
+      return `Move "${event.node.label}"`;
+    case 'renameNode':
+      return `Rename to "${event.node.label}"`;
+    case 'createEdge':
+      return 'Create edge';
+    case 'deleteEdge':
+      return 'Delete edge';
+    case 'updateEdge':
+      return 'Edit edge';
+    case 'pinNode':
+      return `${event.pinned ? 'Pin' : 'Unpin'} "${event.node.label}"`;
+    case 'layoutGraph':
+    case 'layoutFrame':
+      return 'Auto layout';
+  }
+  return undefined;
+}
+
+function restoreSnapshot(graph: Graph | undefined) {
+  if (!graph) return;
+  const selected = appState.selected;
+  stopLayout();
+  stopImpulseAnimation();
+  appState.data = graph;
+  if (isEdge(selected)) appState.selected = graph.edges.find((e) => e.id === selected.id);
+  else setSelection(appState.selectedIds);
+  appState.impulses = appState.impulses.filter((i) => graph.nodes.some((n) => n.id === i.nodeId));
+}
+
+/**
+ * A tick of a layout that is still running. Ticks come every few ms and only the last one matters,
+ * so the others are neither autosaved nor recorded for undo.
+ */
+function isAnimationFrame(event: Event) {
+  return event.type === 'layoutFrame' && appState.layout !== undefined;
+}
+
+let autosaveFailed = false;
+
+function autosave() {
+  try {
+    saveModel(appState.modelId, toGraphFile(appState.data, appState.metadata));
+    setCurrentModelId(appState.modelId);
+    autosaveFailed = false;
+  } catch (error) {
+    // storage full or disabled; say so once, not on every event
+    if (!autosaveFailed) select('#logContainer').append('p').style('color', 'red').text(`Autosave failed: ${(error as Error).message}`);
+    autosaveFailed = true;
+  }
+}
+
 function updateApp(event: Event) {
   console.log(event);
 
+  // describes the state before the event, e.g. how many nodes a deletion is about to remove
+  const undoLabel = describeUndoable(event);
+
   // step 1: change state
   switch (event.type) {
     case 'selectNode':
-      appState.selected = event.node;
+      if (!event.node) setSelection([]);
+      else if (!event.additive) setSelection([event.node.id]);
+      else if (isSelected(event.node)) setSelection(appState.selectedIds.filter((id) => id !== event.node!.id));
+      else setSelection([...appState.selectedIds, event.node.id]);
+      break;
+
+    case 'selectNodes':
+      setSelection(event.additive ? [...appState.selectedIds.filter((id) => !event.ids.includes(id)), ...event.ids] : event.ids);
+      break;
+
+    case 'deleteSelection':
+      deleteNodes(appState.selectedIds, appState.data);
+      appState.impulses = appState.impulses.filter((i) => !appState.selectedIds.includes(i.nodeId));
+      setSelection([]);
+      break;
+
+    case 'copySelection':
+      appState.clipboard = structuredClone({
+        nodes: appState.data.nodes.filter(isSelected),
+        edges: appState.data.edges.filter((e) => appState.selectedIds.includes(e.source) && appState.selectedIds.includes(e.target)),
+      });
+      select('#logContainer').append('p').text(`Copied ${appState.clipboard.nodes.length} node(s).`);
+      break;
+
+    case 'pasteClipboard':
+      setSelection(pasteGraph(appState.clipboard, appState.data));
+      break;
+
+    case 'pinNode':
+      const pinnedNode = appState.data.nodes.find((n) => n.id === event.node.id)!;
+      pinnedNode.pinned = event.pinned;
+      break;
+
+    case 'layoutGraph':
+      layoutRun += 1;
+      appState.layout = {
+        from: new Map(appState.data.nodes.map((n) => [n.id, { x: n.x, y: n.y }])),
+        to: computeLayout(event.algorithm, appState.data.nodes, appState.data.edges),
+        frame: 0,
+      };
+      clearInterval(layoutTimer);
+      layoutTimer = setInterval(() => updateApp({ type: 'layoutFrame' }), layoutFrameInterval);
+      break;
+
+    case 'layoutFrame':
+      if (!appState.layout) break;
+      appState.layout.frame += 1;
+      const progress = appState.layout.frame / layoutFrames;
+      const eased = progress * (2 - progress);
+      for (const node of appState.data.nodes) {
+        const from = appState.layout.from.get(node.id);
+        const to = appState.layout.to.get(node.id);
+        if (!from || !to) continue;
+        node.x = from.x + (to.x - from.x) * eased;
+        node.y = from.y + (to.y - from.y) * eased;
+      }
+      if (appState.layout.frame >= layoutFrames) stopLayout();
       break;
 
     case 'renameNode':
@@ -165,36 +456,48 @@ function updateApp(event: Event) {
       break;
 
     case 'deleteNode':
-      appState.data.nodes = appState.data.nodes.filter((d) => d.id !== event.node.id);
-      appState.data.edges = appState.data.edges.filter((e) => e.target !== event.node.id);
-      appState.data.edges = appState.data.edges.filter((e) => e.source !== event.node.id);
-      appState.selected = undefined;
+      deleteNodes([event.node.id], appState.data);
+      setSelection(appState.selectedIds);
       break;
 
     case 'createNode':
       appState.data.nodes.push(event.node);
-      appState.selected = event.node;
+      setSelection([event.node.id]);
       break;
 
     case 'pushImpulsesDownstream':
-      const newImpulses: Impulse[] = [];
-      for (const impulse of appState.impulses) {
-        const downstreamConnections = appState.data.edges.filter(e => e.source === impulse.nodeId);
-        for (const connection of downstreamConnections) {
-          const targetNode = getNodeById(appState.data, connection.target);
-          if (connection.type === "increment") {
-            targetNode.value += impulse.delta;
-            newImpulses.push({nodeId: targetNode.id, delta: impulse.delta > 0 ? 1 : -1);
-          }
-          if (connection.type === "decrement") {
-            targetNode.value -= impulse.delta;
-            newImpulses.push({nodeId: targetNode.id, delta: impulse.delta > 0 ? -1 : 1);
-          };
-          
-          select('#logContainer').append('p').property('innerHTML', `'${targetNode.label}' ${connection.type}ed to ${targetNode.value}`);
-        }
+      const pushed = pushImpulses(appState.data, appState.impulses);
+      for (const change of pushed.changes) {
+        const targetNode = getNodeById(appState.data, change.nodeId);
+        const via = change.edge ? '' : ' (delayed)';
+        select('#logContainer').append('p').text(`'${targetNode.label}' ${change.delta > 0 ? 'increased' : 'decreased'} by ${formatNumber(Math.abs(change.delta))} to ${formatNumber(targetNode.value)}${via}`);
+      }
+      appState.impulses = pushed.impulses;
+      stopImpulseAnimation();
+      if (appState.animation.enabled && pushed.changes.length > 0) {
+        appState.impulseAnimation = { changes: pushed.changes, start: performance.now() };
+        impulseAnimationRequest = requestAnimationFrame(animateImpulses);
+      }
+      break;
+
+    case 'impulseAnimationEnd':
+      stopImpulseAnimation();
+      break;
+
+    case 'setAnimation':
+      appState.animation = { enabled: event.enabled, speed: event.speed };
+      if (!event.enabled) stopImpulseAnimation();
+      break;
+
+    case 'settleImpulses':
+      const settled = settleImpulses(appState.data, appState.impulses, event.maxSteps, event.damping);
+      appState.impulses = settled.impulses;
+      appState.settleResult = settled;
+      // every step is a point in the charts, not just the end result
+      for (const step of settled.steps.slice(0, -1)) {
+        appState.valueHistory.push(step.values);
+        if (appState.valueHistory.length > maxValueHistory) appState.valueHistory.shift();
       }
-      appState.impulses = newImpulses;
       break;
 
     case 'removeImpulses':
@@ -202,6 +505,7 @@ function updateApp(event: Event) {
       break;
 
     case 'createEdge':
+      appState.selectedIds = [];
       appState.selected = event.edge;
       appState.data.edges.push(event.edge);
       break;
@@ -211,6 +515,7 @@ function updateApp(event: Event) {
       break;
 
     case 'selectEdge':
+      appState.selectedIds = [];
       appState.selected = event.edge;
       break;
 
@@ -222,19 +527,119 @@ function updateApp(event: Event) {
       }
       break;
 
+    case 'selectLoop':
+      appState.selectedLoop = event.edgeIds;
+      break;
+
+    case 'toggleChartNode':
+      if (appState.chartNodeIds.includes(event.nodeId)) {
+        appState.chartNodeIds = appState.chartNodeIds.filter((id) => id !== event.nodeId);
+      } else {
+        appState.chartNodeIds.push(event.nodeId);
+      }
+      break;
+
     case 'exportGraph':
-      downloadJson(appState.data);
+      downloadJson(toGraphFile(appState.data, appState.metadata));
+      break;
+
+    case 'updateMetadata':
+      appState.metadata = event.metadata;
+      break;
+
+    case 'importGraph':
+      const imported = readGraphFile(event.json);
+      if (!imported.graph) {
+        logImportErrors(imported.errors);
+        break;
+      }
+      // imports become a new model, so they never overwrite saved work
+      replaceGraph(createModelId(), imported.graph, imported.metadata);
+      select('#logContainer').append('p').text(`Imported graph with ${imported.graph.nodes.length} nodes and ${imported.graph.edges.length} edges`);
+      break;
+
+    case 'newModel':
+      replaceGraph(createModelId(), { nodes: [], edges: [] }, { ...emptyMetadata(), title: 'New model' });
+      break;
+
+    case 'openModel':
+      openStoredModel(event.id);
+      break;
+
+    case 'duplicateModel':
+      const stored = loadModel(event.id);
+      const original = stored === undefined ? undefined : migrate(stored).file;
+      if (!original) {
+        select('#logContainer').append('p').style('color', 'red').text('Duplicating failed: the stored model is missing or unreadable.');
+        break;
+      }
+      const copy = { ...original, metadata: { ...original.metadata, title: `${original.metadata.title || 'Untitled model'} (copy)` } };
+      saveModel(createModelId(), copy);
+      break;
+
+    case 'renameModel':
+      if (event.id === appState.modelId) {
+        appState.metadata = { ...appState.metadata, title: event.name };
+        break;
+      }
+      const renamed = migrate(loadModel(event.id)).file;
+      if (renamed) saveModel(event.id, { ...renamed, metadata: { ...renamed.metadata, title: event.name } });
+      break;
+
+    case 'deleteModel':
+      deleteModel(event.id);
+      if (event.id === appState.modelId) {
+        const remaining = listModels();
+        if (remaining.length > 0) openStoredModel(remaining[0].id);
+        else replaceGraph(createModelId(), { nodes: [], edges: [] }, { ...emptyMetadata(), title: 'New model' });
+      }
+      break;
+
+    case 'undo':
+      restoreSnapshot(undoHistory.undo());
+      break;
+
+    case 'redo':
+      restoreSnapshot(undoHistory.redo());
+      break;
+
+    case 'jumpToHistory':
+      restoreSnapshot(undoHistory.jumpTo(event.index));
       break;
 
     case 'init':
+      const lastModelId = getCurrentModelId();
+      if (lastModelId) openStoredModel(lastModelId);
+      break;
+
     default:
       break;
   }
 
+  // all moveNode events of one drag become one entry
+  const coalesceKey =
+    event.type === 'moveNode' ? `moveNode:${event.node.id}:${event.dragId}`
+    : event.type === 'layoutGraph' || event.type === 'layoutFrame' ? `layout:${layoutRun}`
+    : undefined;
+  if (undoLabel && !isAnimationFrame(event)) undoHistory.record(undoLabel, appState.data, coalesceKey);
+
+  recordValueHistory();
+  if (!isAnimationFrame(event)) autosave();
+  appState.chartNodeIds = appState.chartNodeIds.filter((id) => appState.data.nodes.some((n) => n.id === id));
+
   // step 2: given state, update app
-  drawGraph(appState.data, rootGroup);
+  const loops = currentLoops(appState.data);
+  const selectedLoop = appState.selectedLoop && loops.find((loop) => sameLoop(loop, appState.selectedLoop!));
+  drawGraph(appState.data, rootGroup, selectedLoop);
+  drawImpulseAnimation(appState.data, rootGroup, appState.impulseAnimation);
   drawNodeForm(appState.selected);
   drawEdgeForm(appState.selected);
+  drawChartPanel(appState.data, appState.chartNodeIds);
+  drawLoopPanel(appState.data, loops, selectedLoop);
+  drawSettleTable(appState.data, appState.settleResult);
+  drawMetadataForm(appState.metadata);
+  drawModelList(appState.modelId);
+  drawHistoryPanel();
 
   console.log(appState);
 }
@@ -254,6 +659,11 @@ function drawNodeForm(selected: AppState['selected']) {
 
   nodeForm.select('input[name="label"]').property('value', selected.label);
   nodeForm.select('#valueSpan').property('innerHTML', selected.value);
+  nodeForm
+    .select('input[name="pinned"]')
+    .property('checked', selected.pinned ?? false)
+    .on('change', (evt) => updateApp({ type: 'pinNode', node: selected, pinned: evt.target.checked }));
+  drawSparkline(nodeForm.select<SVGSVGElement>('svg#sparkline'), nodeHistory(selected.id));
 
   nodeForm.select('input[name="label"]').on('change', () => {
     const newNode = { ...selected };
@@ -322,6 +732,14 @@ function drawEdgeForm(selected: AppState['selected']) {
   targetSelect.property('value', selected.target);
 
   edgeForm.select('select[name="mode"]').property('value', selected.type);
+  edgeForm.select('input[name="weight"]').property('value', selected.weight ?? 1);
+  edgeForm.select('input[name="delay"]').property('value', selected.delay ?? 0);
+  const response = selected.response ?? { kind: 'linear' };
+  edgeForm.select('select[name="response"]').property('value', response.kind);
+  edgeForm
+    .select('input[name="responseParameter"]')
+    .property('value', response.kind === 'saturation' ? response.limit : response.kind === 'threshold' ? response.threshold : '')
+    .property('disabled', response.kind === 'linear');
 
   edgeForm.select('select[name="source"]').on('change', function () {
       const sourceId = +(this as HTMLSelectElement).value;
@@ -335,16 +753,149 @@ function drawEdgeForm(selected: AppState['selected']) {
 
   edgeForm.select('select[name="mode"]')
     .on('change', function () {
-      const newType = (this as HTMLSelectElement).value as Edge['type'];
-      updateApp({type: 'updateEdge',edge: { ...selected, type: newType }});
+      const newType = (this as HTMLSelectElement).value;
+      if (isEdgeType(newType)) updateApp({type: 'updateEdge',edge: { ...selected, type: newType }});
     });
 
+  edgeForm.select('input[name="weight"]').on('change', function () {
+    const weight = +(this as HTMLInputElement).value;
+    if (Number.isFinite(weight)) updateApp({ type: 'updateEdge', edge: { ...selected, weight } });
+  });
+
+  edgeForm.select('input[name="delay"]').on('change', function () {
+    const delay = Math.max(0, Math.round(+(this as HTMLInputElement).value));
+    if (Number.isFinite(delay)) updateApp({ type: 'updateEdge', edge: { ...selected, delay } });
+  });
+
+  edgeForm.select('.edgeError').text('');
+  const updateResponse = () => {
+    const kind = edgeForm.select('select[name="response"]').property('value') as EdgeResponse['kind'];
+    const input = edgeForm.select<HTMLInputElement>('input[name="responseParameter"]').node()!;
+    // an empty field, e.g. right after switching from linear, starts at 1; number inputs also read as empty when they hold no number
+    const parameter = input.value.trim() === '' ? 1 : Number(input.value);
+    let problem: string | undefined;
+    if (kind !== 'linear' && (input.validity.badInput || !Number.isFinite(parameter))) problem = 'The response parameter must be a number';
+    else if (kind === 'saturation' && parameter <= 0) problem = 'The saturation limit must be greater than 0';
+    else if (kind === 'threshold' && parameter < 0) problem = 'The threshold must not be negative';
+    if (problem) {
+      edgeForm.select('.edgeError').text(problem);
+      return;
+    }
+    const newResponse: EdgeResponse =
+      kind === 'saturation' ? { kind, limit: parameter } : kind === 'threshold' ? { kind, threshold: parameter } : { kind: 'linear' };
+    updateApp({ type: 'updateEdge', edge: { ...selected, response: newResponse } });
+  };
+  edgeForm.select('select[name="response"]').on('change', updateResponse);
+  edgeForm.select('input[name="responseParameter"]').on('change', updateResponse);
+
   edgeForm.select('.edgeDelete').on('click', () => updateApp({type: 'deleteEdge', edge: selected}));
 
   edgeForm.select('.edgeDeselect').on('click', () => updateApp({type: 'selectEdge'}));
 }
 
 
+function drawChartPanel(graph: Graph, chartNodeIds: AppState['chartNodeIds']) {
+  const chartPanel = select('#chartPanel');
+  const checkboxes = chartPanel
+    .select('#chartNodeList')
+    .selectAll<HTMLLabelElement, Node>('label')
+    .data(graph.nodes, (d) => d.id)
+    .join((enter) => {
+      const label = enter.append('label');
+      label.append('input').attr('type', 'checkbox').on('change', (_, node) => updateApp({ type: 'toggleChartNode', nodeId: node.id }));
+      label.append('span');
+      return label;
+    });
+  checkboxes.select('input').property('checked', (d) => chartNodeIds.includes(d.id));
+  checkboxes.select('span').text((d) => d.label);
+
+  const series = chartNodeIds.map((id) => ({ label: getNodeById(graph, id).label, values: nodeHistory(id) }));
+  drawLineChart(chartPanel.select<SVGSVGElement>('svg#chart'), series);
+}
+
+
+function drawLoopPanel(graph: Graph, loops: FeedbackLoop[], selectedLoop: FeedbackLoop | undefined) {
+  const loopPanel = select('#loopPanel');
+  const reinforcing = loops.filter((l) => l.polarity === 'reinforcing').length;
+  loopPanel
+    .select('.loopSummary')
+    .text(loops.length === 0 ? 'No feedback loops.' : `${reinforcing} reinforcing, ${loops.length - reinforcing} balancing${loops.length >= maxLoops ? ` (only the first ${maxLoops} are listed)` : ''}`);
+
+  loopPanel
+    .select('ul')
+    .selectAll<HTMLLIElement, FeedbackLoop>('li')
+    .data(loops, (l) => l.edgeIds.join(','))
+    .join('li')
+    .text((l) => `${l.name}: ${[...l.nodeIds, l.nodeIds[0]].map((id) => getNodeById(graph, id).label).join(' → ')}`)
+    .style('font-weight', (l) => (l === selectedLoop ? 'bold' : 'normal'))
+    .style('color', (l) => loopColor(l))
+    .style('cursor', 'pointer')
+    .on('click', (_, l) => updateApp({ type: 'selectLoop', edgeIds: l === selectedLoop ? undefined : l.edgeIds }));
+}
+
+const settleOutcomeText: Record<SettleResult['outcome'], string> = {
+  settled: 'Settled',
+  oscillating: 'Oscillating',
+  drifting: 'Drifting without bound',
+  diverging: 'Diverging',
+  maxSteps: 'Not settled',
+};
+
+function drawSettleTable(graph: Graph, result: SettleResult | undefined) {
+  const settlePanel = select('#settlePanel');
+  settlePanel.style('display', result ? 'block' : 'none');
+  if (!result) return;
+
+  const last = result.steps[result.steps.length - 1];
+  const period = result.period ? `, impulses repeat every ${result.period} step(s)` : '';
+  settlePanel
+    .select('.settleSummary')
+    .style('color', result.outcome === 'settled' ? 'black' : 'red')
+    .text(`${settleOutcomeText[result.outcome]} after ${last?.step ?? 0} step(s)${period}.`);
+
+  const labelOf = (id: Node['id']) => graph.nodes.find((n) => n.id === id)?.label ?? `#${id}`;
+  const describeChanges = (step: SettleResult['steps'][number]) =>
+    step.changes.map((c) => `${labelOf(c.nodeId)} ${c.delta > 0 ? '+' : '-'}${formatNumber(Math.abs(c.delta))}`).join(', ') || '(in transit)';
+
+  settlePanel
+    .select('tbody')
+    .selectAll('tr')
+    .data(result.steps)
+    .join((enter) => {
+      const row = enter.append('tr');
+      row.append('td').attr('class', 'step');
+      row.append('td').attr('class', 'changes');
+      row.append('td').attr('class', 'impulseCount');
+      row.append('td').attr('class', 'magnitude');
+      return row;
+    })
+    .call((row) => {
+      row.select('.step').text((s) => s.step);
+      row.select('.changes').text(describeChanges);
+      row.select('.impulseCount').text((s) => s.impulseCount);
+      row.select('.magnitude').text((s) => formatNumber(s.magnitude));
+    });
+}
+
+select('#animationForm').selectAll('input').on('change', () => {
+  updateApp({
+    type: 'setAnimation',
+    enabled: select('#animateImpulses').property('checked'),
+    speed: +select('#animationSpeed').property('value'),
+  });
+});
+
+select('#settleImpulses').on('click', () => {
+  const maxSteps = Math.max(1, Math.round(+select('#maxSteps').property('value')) || 100);
+  const damping = Math.min(1, Math.max(0, +select('#damping').property('value')));
+  updateApp({ type: 'settleImpulses', maxSteps, damping: Number.isFinite(damping) ? damping : 1 });
+});
+
+function loopColor(loop: FeedbackLoop) {
+  return loop.polarity === 'reinforcing' ? 'darkorange' : 'seagreen';
+}
+
+
 select('#nodeCreate').on('click', () =>
   updateApp({
     type: 'createNode',
@@ -383,23 +934,142 @@ select('#edgeCreate').on('click', () => {
     return;
   }
 
-    updateApp({
-      type: 'createEdge',
-      edge: {
-        id: appState.data.edges.length > 0 ? Math.max(...appState.data.edges.map(e => e.id)) + 1 : 1,
-        source: node1.id,
-        target: node2.id,
-        type: 'increment'
-      },
-    })
+    createEdgeBetween(node1, node2);
 });
 
+/**
+ * Creates an edge of the type chosen next to "Create edge".
+ */
+function createEdgeBetween(source: Node, target: Node) {
+  if (source.id === target.id) return;
+  if (appState.data.edges.some((e) => e.source === source.id && e.target === target.id)) {
+    select('#logContainer').append('p').text(`'${source.label}' is already connected to '${target.label}'.`);
+    return;
+  }
+  const type: unknown = select('#newEdgeType').property('value');
+  if (!isEdgeType(type)) {
+    select('#logContainer').append('p').style('color', 'red').text(`Unknown edge type '${type}'.`);
+    return;
+  }
+  updateApp({
+    type: 'createEdge',
+    edge: {
+      id: appState.data.edges.length > 0 ? Math.max(...appState.data.edges.map(e => e.id)) + 1 : 1,
+      source: source.id,
+      target: target.id,
+      type,
+    },
+  });
+}
+
 select('#propagateImpulses').on('click', () => updateApp({type: 'pushImpulsesDownstream'}));
 
 select('#removeImpulses').on('click', () => updateApp({type: 'removeImpulses'}));
 
 select('#exportGraph').on('click', () => updateApp({type: 'exportGraph'}));
 
+select('#layoutForce').on('click', () => updateApp({ type: 'layoutGraph', algorithm: 'force' }));
+
+select('#layoutLayered').on('click', () => updateApp({ type: 'layoutGraph', algorithm: 'layered' }));
+
+function drawMetadataForm(metadata: AppState['metadata']) {
+  const metadataForm = select('#metadataForm');
+  metadataForm.select('input[name="title"]').property('value', metadata.title);
+  metadataForm.select('input[name="author"]').property('value', metadata.author);
+  metadataForm.select('textarea[name="description"]').property('value', metadata.description);
+}
+
+select('#metadataForm').selectAll('input, textarea').on('change', () => {
+  const metadataForm = select('#metadataForm');
+  updateApp({
+    type: 'updateMetadata',
+    metadata: {
+      title: metadataForm.select('input[name="title"]').property('value'),
+      author: metadataForm.select('input[name="author"]').property('value'),
+      description: metadataForm.select('textarea[name="description"]').property('value'),
+    },
+  });
+});
+
+function drawModelList(currentModelId: AppState['modelId']) {
+  const items = select('#modelList ul')
+    .selectAll<HTMLLIElement, ModelSummary>('li')
+    .data(listModels(), (m) => m.id)
+    .join((enter) => {
+      const item = enter.append('li');
+      item.append('span').attr('class', 'modelName');
+      item.append('button').text('Open').on('click', (_, m) => updateApp({ type: 'openModel', id: m.id }));
+      item.append('button').text('Duplicate').on('click', (_, m) => updateApp({ type: 'duplicateModel', id: m.id }));
+      item.append('button').text('Rename').on('click', (_, m) => {
+        const name = prompt('New name', m.name);
+        if (name) updateApp({ type: 'renameModel', id: m.id, name });
+      });
+      item.append('button').text('Delete').on('click', (_, m) => {
+        if (confirm(`Delete "${m.name}"?`)) updateApp({ type: 'deleteModel', id: m.id });
+      });
+      return item;
+    });
+  items
+    .select('.modelName')
+    .text((m) => m.name)
+    .style('font-weight', (m) => (m.id === currentModelId ? 'bold' : 'normal'));
+}
+
+select('#newModel').on('click', () => updateApp({ type: 'newModel' }));
+
+
+function drawHistoryPanel() {
+  const historyPanel = select('#historyPanel');
+  historyPanel.select('button.undo').property('disabled', !undoHistory.canUndo());
+  historyPanel.select('button.redo').property('disabled', !undoHistory.canRedo());
+  historyPanel
+    .select('ol')
+    .selectAll('li')
+    .data(undoHistory.list())
+    .join('li')
+    .text((entry) => entry.label)
+    .style('font-weight', (entry) => (entry.current ? 'bold' : 'normal'))
+    .style('cursor', 'pointer')
+    .on('click', (_, entry) => updateApp({ type: 'jumpToHistory', index: entry.index }));
+}
+
+select('#historyPanel button.undo').on('click', () => updateApp({ type: 'undo' }));
+select('#historyPanel button.redo').on('click', () => updateApp({ type: 'redo' }));
+
+select(document).on('keydown', (evt: KeyboardEvent) => {
+  // text fields keep their own undo, copy/paste and backspace
+  if (evt.target instanceof HTMLInputElement || evt.target instanceof HTMLTextAreaElement) return;
+  if ((evt.key === 'Delete' || evt.key === 'Backspace') && appState.selectedIds.length > 0) {
+    evt.preventDefault();
+    updateApp({ type: 'deleteSelection' });
+    return;
+  }
+  if (!(evt.ctrlKey || evt.metaKey)) return;
+  const key = evt.key.toLowerCase();
+  if (key === 'c') {
+    updateApp({ type: 'copySelection' });
+  } else if (key === 'v') {
+    evt.preventDefault();
+    updateApp({ type: 'pasteClipboard' });
+  } else if (key === 'z' && !evt.shiftKey) {
+    evt.preventDefault();
+    updateApp({ type: 'undo' });
+  } else if ((key === 'z' && evt.shiftKey) || key === 'y') {
+    evt.preventDefault();
+    updateApp({ type: 'redo' });
+  }
+});
+
+select('#importGraph').on('click', () => (document.querySelector('#importFile') as HTMLInputElement).click());
+
+select('#importFile').on('change', function () {
+  const input = this as HTMLInputElement;
+  const file = input.files?.[0];
+  if (file) readJsonFile(file, (json) => updateApp({ type: 'importGraph', json }));
+  // allow importing the same file again
+  input.value = '';
+});
+
 
 
 
@@ -416,6 +1086,12 @@ const xScale = scaleLinear([0, 1], [0, viewBoxX]);
 const yScale = scaleLinear([0, 1], [0, viewBoxY]);
 
 const rootSvg = select<SVGSVGElement, unknown>('#svg')
+  .on('dragover', (evt: DragEvent) => evt.preventDefault())
+  .on('drop', (evt: DragEvent) => {
+    evt.preventDefault();
+    const file = evt.dataTransfer?.files[0];
+    if (file) readJsonFile(file, (json) => updateApp({ type: 'importGraph', json }));
+  })
   .attr('viewBox', `0 0 ${viewBoxX} ${viewBoxY}`);
 const rootGroup = rootSvg.append('g');
 const defs = rootSvg.append('defs');
@@ -431,9 +1107,46 @@ defs
   .append('path')
   .attr('d', 'M 0 0 L 10 5 L 0 10 z');
 
-const zoomBehavior = zoom<SVGSVGElement, unknown>();
+// shift-drag is for selecting, see below
+const zoomBehavior = zoom<SVGSVGElement, unknown>().filter((evt) => (!evt.ctrlKey || evt.type === 'wheel') && !evt.button && !(evt.shiftKey && evt.type === 'mousedown'));
 rootSvg.call(zoomBehavior.on('zoom', (evt) => rootGroup.attr('transform', evt.transform)));
 
+/**
+ * Shift-dragging across empty space selects the nodes inside the band, in addition to the current selection.
+ * (A plain drag pans the view.)
+ */
+rootSvg.call(
+  drag<SVGSVGElement, unknown>()
+    .filter((evt) => evt.shiftKey && !evt.button)
+    .container(() => rootGroup.node()!)
+    .on('start', () => {
+      rootGroup
+        .append('rect')
+        .attr('class', 'selectionBand')
+        .attr('fill', 'steelblue')
+        .attr('fill-opacity', 0.1)
+        .attr('stroke', 'steelblue')
+        .style('pointer-events', 'none');
+    })
+    .on('drag', (evt) => {
+      const { x, y } = evt.subject;
+      rootGroup
+        .select('.selectionBand')
+        .attr('x', Math.min(x, evt.x))
+        .attr('y', Math.min(y, evt.y))
+        .attr('width', Math.abs(evt.x - x))
+        .attr('height', Math.abs(evt.y - y));
+    })
+    .on('end', (evt) => {
+      rootGroup.select('.selectionBand').remove();
+      const { x, y } = evt.subject;
+      const inBand = (node: Node) =>
+        xScale(node.x) >= Math.min(x, evt.x) && xScale(node.x) <= Math.max(x, evt.x) &&
+        yScale(node.y) >= Math.min(y, evt.y) && yScale(node.y) <= Math.max(y, evt.y);
+      updateApp({ type: 'selectNodes', ids: appState.data.nodes.filter(inBand).map((n) => n.id), additive: true });
+    })
+);
+
 /**********************************************
  * Drawing functions
  **********************************************/
@@ -441,8 +1154,13 @@ rootSvg.call(zoomBehavior.on('zoom', (evt) => rootGroup.attr('transform', evt.tr
 class Breaker<T> {
   private queue?: T;
   private scheduled?: number;
+  private timeout: number;
+  private callback: (d: T) => undefined;
 
-  constructor(private timeout: number, private callback: (d: T) => undefined) {}
+  constructor(timeout: number, callback: (d: T) => undefined) {
+    this.timeout = timeout;
+    this.callback = callback;
+  }
 
   enqueue(datum: T) {
     this.queue = datum;
@@ -456,10 +1174,40 @@ class Breaker<T> {
   }
 }
 
-const dragBreaker = new Breaker<{ evt: DragEvent; node: Node }>(50, ({ evt, node }) => {
-  updateApp({ type: 'moveNode', node });
+const dragBreaker = new Breaker<{ node: Node; dragId: number }>(50, ({ node, dragId }) => {
+  updateApp({ type: 'moveNode', node, dragId });
 });
 
+let dragCount = 0;
+
+/**
+ * Dragging from a node's handle draws a preview line; dropping it on another node connects the two.
+ */
+function connectDrag(graph: Graph, root: Selection<SVGGElement, unknown, HTMLElement, any>, radius: (node: Node) => number) {
+  return drag<SVGCircleElement, Node>()
+    .on('start', (_, source) => {
+      root
+        .append('line')
+        .attr('class', 'connectionPreview')
+        .attr('x1', xScale(source.x))
+        .attr('y1', yScale(source.y))
+        .attr('x2', xScale(source.x))
+        .attr('y2', yScale(source.y))
+        .attr('stroke', 'grey')
+        .attr('stroke-dasharray', '4 2')
+        .attr('marker-end', 'url(#arrow)')
+        .style('pointer-events', 'none');
+    })
+    .on('drag', (evt) => {
+      root.select('.connectionPreview').attr('x2', evt.x).attr('y2', evt.y);
+    })
+    .on('end', (evt, source) => {
+      root.select('.connectionPreview').remove();
+      const target = graph.nodes.find((n) => n.id !== source.id && Math.hypot(xScale(n.x) - evt.x, yScale(n.y) - evt.y) <= radius(n));
+      if (target) createEdgeBetween(source, target);
+    });
+}
+
 
 function wayFraction(graph: Graph, startId: number, targetId: number, fraction: number) {
   const startNode = getNodeById(graph, startId);
@@ -492,9 +1240,70 @@ function wayMinusBuffer(graph: Graph, startId: number, targetId: number, buffer:
   return { x: fractionX, y: fractionY };
 }
 
-function drawGraph(graph: Graph, root: Selection<SVGGElement, unknown, HTMLElement, any>) {
+/**
+ * Sign and weight, plus the delay if there is one, e.g. `+0.5 ⧗2`.
+ */
+function edgeGlyph(edge: Edge) {
+  const weight = edge.weight ?? 1;
+  const sign = edge.type === 'increment' ? '+' : '-';
+  return `${sign}${weight === 1 ? '' : formatNumber(weight)}${edge.delay ? ` ⧗${edge.delay}` : ''}`;
+}
+
+function glyphWidth(edge: Edge) {
+  return Math.max(12, edgeGlyph(edge).length * 6 + 4);
+}
+
+function nodeRadiusScale(graph: Graph) {
   const maxVal = Math.max(...graph.nodes.map(n => n.value));
-  const radiusScale = scaleLinear([0, maxVal], [5, 50]).clamp(true);
+  return scaleLinear([0, maxVal], [5, 50]).clamp(true);
+}
+
+/**
+ * Every change of the last push as a particle running from the edge's source to its target,
+ * green for increases and red for decreases, bigger for bigger changes.
+ * When a particle arrives, a ring pulses around the node it changed.
+ */
+function drawImpulseAnimation(graph: Graph, root: Selection<SVGGElement, unknown, HTMLElement, any>, animation: AppState['impulseAnimation']) {
+  const changes = animation?.changes.filter((c) => graph.nodes.some((n) => n.id === c.nodeId)) ?? [];
+  const progress = animation ? impulseProgress(animation) : 0;
+  const maxDelta = Math.max(...changes.map((c) => Math.abs(c.delta)), 1e-9);
+  const sizeScale = scaleSqrt([0, maxDelta], [2, 7]);
+  const radiusScale = nodeRadiusScale(graph);
+  const color = (change: ImpulseChange) => (change.delta > 0 ? 'seagreen' : 'crimson');
+
+  // above everything else, whatever was drawn after it
+  const layer = root.selectAll<SVGGElement, unknown>('.impulseLayer').data([null]).join('g').attr('class', 'impulseLayer').style('pointer-events', 'none').raise();
+
+  const travelling = changes.filter((c) => c.edge && graph.nodes.some((n) => n.id === c.edge!.source));
+  layer
+    .selectAll<SVGCircleElement, ImpulseChange>('.impulseParticle')
+    .data(progress < 1 ? travelling : [])
+    .join('circle')
+    .attr('class', 'impulseParticle')
+    .attr('fill', color)
+    .attr('r', (c) => sizeScale(Math.abs(c.delta)))
+    .attr('cx', (c) => wayFraction(graph, c.edge!.source, c.nodeId, progress).x)
+    .attr('cy', (c) => wayFraction(graph, c.edge!.source, c.nodeId, progress).y);
+
+  // the last 40% of the way: particles have (nearly) arrived
+  const pulse = Math.max(0, (progress - 0.6) / 0.4);
+  layer
+    .selectAll<SVGCircleElement, ImpulseChange>('.impulsePulse')
+    .data(pulse > 0 ? changes : [])
+    .join('circle')
+    .attr('class', 'impulsePulse')
+    .attr('fill', 'none')
+    .attr('stroke', color)
+    .attr('stroke-width', 2)
+    .attr('opacity', 1 - pulse)
+    .attr('r', (c) => radiusScale(getNodeById(graph, c.nodeId).value) + 12 * pulse)
+    .attr('cx', (c) => xScale(getNodeById(graph, c.nodeId).x))
+    .attr('cy', (c) => yScale(getNodeById(graph, c.nodeId).y));
+}
+
+function drawGraph(graph: Graph, root: Selection<SVGGElement, unknown, HTMLElement, any>, selectedLoop?: FeedbackLoop) {
+  const radiusScale = nodeRadiusScale(graph);
+  const inLoop = (edge: Edge) => selectedLoop?.edgeIds.includes(edge.id) ?? false;
 
 
   const connections = root
@@ -503,7 +1312,9 @@ function drawGraph(graph: Graph, root: Selection<SVGGElement, unknown, HTMLEleme
     .attr('x1', (edge) => xScale(getNodeById(graph, edge.source).x))
     .attr('y1', (edge) => yScale(getNodeById(graph, edge.source).y))
     .attr('x2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, radiusScale(getNodeById(graph, edge.target).value)).x)
-    .attr('y2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, radiusScale(getNodeById(graph, edge.target).value)).y);
+    .attr('y2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, radiusScale(getNodeById(graph, edge.target).value)).y)
+    .attr('stroke', (edge) => (inLoop(edge) ? loopColor(selectedLoop!) : 'black'))
+    .attr('stroke-width', (edge) => (inLoop(edge) ? 3 : 1));
   connections
     .enter()
     .append('line')
@@ -512,7 +1323,8 @@ function drawGraph(graph: Graph, root: Selection<SVGGElement, unknown, HTMLEleme
     .attr('y1', (edge) => yScale(getNodeById(graph, edge.source).y))
     .attr('x2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, 15).x)
     .attr('y2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, 15).y)
-    .attr('stroke', 'black')
+    .attr('stroke', (edge) => (inLoop(edge) ? loopColor(selectedLoop!) : 'black'))
+    .attr('stroke-width', (edge) => (inLoop(edge) ? 3 : 1))
     .attr('marker-end', 'url(#arrow)')
     .on('click', (_, edge) => updateApp({type: 'selectEdge', edge}));
   connections.exit().remove();
@@ -521,24 +1333,48 @@ function drawGraph(graph: Graph, root: Selection<SVGGElement, unknown, HTMLEleme
   const connectionLabelGroups = root.selectAll<SVGGElement, Edge>('.connectionLabel')
     .data(graph.edges, (e) => `${e.source}-${e.target}`)
     .attr('transform', edge => `translate(${wayFraction(graph, edge.source, edge.target, 0.5).x}, ${wayFraction(graph, edge.source, edge.target, 0.5).y})`);
-  connectionLabelGroups.select('text').text(e => e.type === 'increment' ? '+' : '-').attr('transform', 'translate(-4.5, 5)');
+  connectionLabelGroups.select('text').text(edgeGlyph);
+  connectionLabelGroups.select('rect').attr('width', (e) => glyphWidth(e)).attr('x', (e) => -glyphWidth(e) / 2);
   const connectionLabelsNew = connectionLabelGroups.enter()
     .append('g')
     .attr('class', 'connectionLabel')
     .attr('transform', edge => `translate(${wayFraction(graph, edge.source, edge.target, 0.5).x}, ${wayFraction(graph, edge.source, edge.target, 0.5).y})`);
   connectionLabelsNew
-    .append('circle').attr('r', 5).attr('fill', 'lightgrey')
+    .append('rect').attr('height', 12).attr('y', -6).attr('rx', 6).attr('fill', 'lightgrey')
+    .attr('width', (e) => glyphWidth(e)).attr('x', (e) => -glyphWidth(e) / 2)
     .on('click', (_, e) => updateApp({type: 'selectEdge', edge: e}));
   connectionLabelsNew
-    .append('text').text(e => e.type === 'increment' ? '+' : '-').attr('transform', 'translate(-4.5, 5)')
+    .append('text').text(edgeGlyph).attr('text-anchor', 'middle').attr('y', 4).attr('font-size', 10)
     .on('click', (_, e) => updateApp({type: 'selectEdge', edge: e}));
   connectionLabelGroups.exit().remove();
 
 
+  // the usual causal-loop marker in the middle of the loop: its name with a circular arrow
+  const loopCenter = (loop: FeedbackLoop) => {
+    const loopNodes = loop.nodeIds.map((id) => getNodeById(graph, id));
+    return {
+      x: xScale(loopNodes.reduce((sum, n) => sum + n.x, 0) / loopNodes.length),
+      y: yScale(loopNodes.reduce((sum, n) => sum + n.y, 0) / loopNodes.length),
+    };
+  };
+  root
+    .selectAll<SVGTextElement, FeedbackLoop>('.loopMarker')
+    .data(selectedLoop ? [selectedLoop] : [])
+    .join('text')
+    .attr('class', 'loopMarker')
+    .attr('text-anchor', 'middle')
+    .attr('font-weight', 'bold')
+    .attr('fill', (l) => loopColor(l))
+    .style('pointer-events', 'none')
+    .attr('x', (l) => loopCenter(l).x)
+    .attr('y', (l) => loopCenter(l).y)
+    .text((l) => `↻ ${l.name}`);
+
+
   const nodes = root
     .selectAll<SVGCircleElement, Node>('.node')
     .data(graph.nodes, (d: Node) => d.id)
-    .attr('stroke', (d) => (isSelected(d) ? 'black' : appState.impulses.map(i => i.nodeId).includes(d.id) ? 'blue' : 'none'))
+    .attr('stroke', (d) => (isSelected(d) ? 'black' : appState.impulses.some((i) => hasArrived(i) && i.nodeId === d.id) ? 'blue' : 'none'))
     .attr('cx', (d) => xScale(d.x))
     .attr('cy', (d) => yScale(d.y))
     .attr('r', d => radiusScale(d.value) + 'px');
@@ -548,32 +1384,62 @@ function drawGraph(graph: Graph, root: Selection<SVGGElement, unknown, HTMLEleme
     .attr('class', 'node')
     .attr('r', d => radiusScale(d.value) + 'px')
     .attr('fill', 'grey')
-    .attr('stroke', (d) => (isSelected(d) ? 'black' : appState.impulses.map(i => i.nodeId).includes(d.id) ? 'blue' : 'none'))
+    .attr('stroke', (d) => (isSelected(d) ? 'black' : appState.impulses.some((i) => hasArrived(i) && i.nodeId === d.id) ? 'blue' : 'none'))
     .attr('cx', (d) => xScale(d.x))
     .attr('cy', (d) => yScale(d.y))
-    .on('click', (_, node) => updateApp({ type: 'selectNode', node }))
-    .call(drag<SVGCircleElement, Node>().on('drag', (evt, node) => {
-        node.x += xScale.invert(evt.dx);
-        node.y += yScale.invert(evt.dy);
-        dragBreaker.enqueue({ evt, node });
-    }));
+    .on('click', (evt, node) => updateApp({ type: 'selectNode', node, additive: evt.shiftKey }))
+    .call(drag<SVGCircleElement, Node>()
+      .on('start', () => {
+        dragCount += 1;
+      })
+      .on('drag', (evt, node) => {
+        // dragging one of the selected nodes moves all of them
+        const moved = isSelected(node) ? appState.data.nodes.filter(isSelected) : [node];
+        for (const movedNode of moved) {
+          movedNode.x += xScale.invert(evt.dx);
+          movedNode.y += yScale.invert(evt.dy);
+        }
+        dragBreaker.enqueue({ node, dragId: dragCount });
+      }));
   nodes.exit().remove();
 
 
+  const handles = root
+    .selectAll<SVGCircleElement, Node>('.nodeHandle')
+    .data(graph.nodes, (d: Node) => d.id)
+    .attr('cx', (d) => xScale(d.x) + radiusScale(d.value))
+    .attr('cy', (d) => yScale(d.y));
+  handles
+    .enter()
+    .append('circle')
+    .attr('class', 'nodeHandle')
+    .attr('r', 4)
+    .attr('fill', 'white')
+    .attr('stroke', 'black')
+    .style('cursor', 'crosshair')
+    .attr('cx', (d) => xScale(d.x) + radiusScale(d.value))
+    .attr('cy', (d) => yScale(d.y))
+    .append('title')
+    .text('Drag onto another node to connect');
+  // re-bound on every draw, so that the drag sees the current graph
+  root.selectAll<SVGCircleElement, Node>('.nodeHandle').call(connectDrag(graph, root, (n) => radiusScale(n.value)));
+  handles.exit().remove();
+
+
   const nodeLabels = root
     .selectAll<SVGTextElement, Node>('.nodeLabel')
     .data(graph.nodes, (d) => d.id)
-    .text((el) => el.label + ": " + el.value)
+    .text((el) => `${el.label}: ${formatNumber(el.value)}`)
     .attr('x', (d) => xScale(d.x))
     .attr('y', (d) => yScale(d.y));
   nodeLabels
     .enter()
     .append('text')
     .attr('class', 'nodeLabel')
-    .text((el) => el.label + ": " + el.value)
+    .text((el) => `${el.label}: ${formatNumber(el.value)}`)
     .attr('x', (d) => xScale(d.x))
     .attr('y', (d) => yScale(d.y))
-    .on('click', (_, node) => updateApp({ type: 'selectNode', node }));
+    .on('click', (evt, node) => updateApp({ type: 'selectNode', node, additive: evt.shiftKey }));
   nodeLabels.exit().remove();
 }
 
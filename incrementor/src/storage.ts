@@ -0,0 +1,83 @@
+import { type GraphFile } from './graphFile';
+
+/**********************************************
+ * Browser storage for named models
+ *
+ * Every model is stored as a `GraphFile` under its own localStorage key,
+ * so loading one goes through the same migrations as importing a file.
+ * An index of all models and the id of the last opened one are stored next to them.
+ *
+ * Mirrors ../../src/storage.ts: the two apps build separately, so each has its own copy.
+ * They differ only in the key prefix and the module templates, which only the expression app has.
+ * Keep everything else in sync, in the same commits.
+ **********************************************/
+
+const keyPrefix = 'econodes.incrementor';
+const indexKey = `${keyPrefix}.models`;
+const currentModelKey = `${keyPrefix}.currentModel`;
+
+export interface ModelSummary {
+  id: string;
+  name: string;
+  /** ISO timestamp of the last save */
+  savedAt: string;
+}
+
+function modelKey(id: string) {
+  return `${keyPrefix}.model.${id}`;
+}
+
+export function createModelId() {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+export function listModels(): ModelSummary[] {
+  const stored = localStorage.getItem(indexKey);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(models: ModelSummary[]) {
+  localStorage.setItem(indexKey, JSON.stringify(models));
+}
+
+export function loadModel(id: string): unknown | undefined {
+  const stored = localStorage.getItem(modelKey(id));
+  if (!stored) return undefined;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Throws if the browser's storage is full.
+ */
+export function saveModel(id: string, file: GraphFile) {
+  const savedAt = file.metadata.savedAt ?? new Date().toISOString();
+  localStorage.setItem(modelKey(id), JSON.stringify(file));
+  const summary = { id, name: file.metadata.title || 'Untitled model', savedAt };
+  const models = listModels();
+  const index = models.findIndex((m) => m.id === id);
+  if (index === -1) models.push(summary);
+  else models[index] = summary;
+  writeIndex(models);
+}
+
+export function deleteModel(id: string) {
+  localStorage.removeItem(modelKey(id));
+  writeIndex(listModels().filter((m) => m.id !== id));
+}
+
+export function getCurrentModelId(): string | undefined {
+  return localStorage.getItem(currentModelKey) ?? undefined;
+}
+
+export function setCurrentModelId(id: string) {
+  localStorage.setItem(currentModelKey, id);
+}
@@ -0,0 +1,237 @@
+import { type Selection } from 'd3-selection';
+import { scaleLinear, scaleOrdinal } from 'd3-scale';
+import { line } from 'd3-shape';
+import { axisBottom, axisLeft } from 'd3-axis';
+
+/**********************************************
+ * Charts
+ *
+ * Plain functions that (re-)draw into a given <svg>.
+ * A series is one value per step; `undefined` where there is no value (e.g. a node that didn't exist yet).
+ **********************************************/
+
+export interface Series {
+  label: string;
+  values: (number | undefined)[];
+}
+
+const palette = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'];
+
+function extent(series: Series[]): [number, number] {
+  const all = series.flatMap((s) => s.values).filter((v): v is number => v !== undefined && Number.isFinite(v));
+  if (all.length === 0) return [0, 1];
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  return min === max ? [min - 1, max + 1] : [min, max];
+}
+
+export function drawSparkline(svg: Selection<SVGSVGElement, unknown, HTMLElement, any>, values: (number | undefined)[]) {
+  const width = +svg.attr('width');
+  const height = +svg.attr('height');
+  const xScale = scaleLinear([0, Math.max(values.length - 1, 1)], [1, width - 1]);
+  const yScale = scaleLinear(extent([{ label: '', values }]), [height - 1, 1]);
+  const path = line<number | undefined>()
+    .defined((v) => v !== undefined)
+    .x((_, i) => xScale(i))
+    .y((v) => yScale(v!));
+
+  svg
+    .selectAll('path')
+    .data([values])
+    .join('path')
+    .attr('fill', 'none')
+    .attr('stroke', 'steelblue')
+    .attr('d', path);
+}
+
+export function drawLineChart(svg: Selection<SVGSVGElement, unknown, HTMLElement, any>, series: Series[]) {
+  const width = 400;
+  const height = 200;
+  const margin = { top: 10, right: 90, bottom: 25, left: 45 };
+  svg.attr('viewBox', `0 0 ${width} ${height}`);
+
+  const steps = Math.max(...series.map((s) => s.values.length), 2);
+  const xScale = scaleLinear([0, steps - 1], [margin.left, width - margin.right]);
+  const yScale = scaleLinear(extent(series), [height - margin.bottom, margin.top]).nice();
+  const colorScale = scaleOrdinal<string, string>(palette);
+  const path = line<number | undefined>()
+    .defined((v) => v !== undefined)
+    .x((_, i) => xScale(i))
+    .y((v) => yScale(v!));
+
+  svg
+    .selectAll<SVGGElement, unknown>('.xAxis')
+    .data([null])
+    .join('g')
+    .attr('class', 'xAxis')
+    .attr('transform', `translate(0, ${height - margin.bottom})`)
+    .call(axisBottom(xScale).ticks(Math.min(steps - 1, 10)));
+  svg
+    .selectAll<SVGGElement, unknown>('.yAxis')
+    .data([null])
+    .join('g')
+    .attr('class', 'yAxis')
+    .attr('transform', `translate(${margin.left}, 0)`)
+    .call(axisLeft(yScale).ticks(5));
+
+  svg
+    .selectAll<SVGPathElement, Series>('.seriesLine')
+    .data(series, (s) => s.label)
+    .join('path')
+    .attr('class', 'seriesLine')
+    .attr('fill', 'none')
+    .attr('stroke', (s) => colorScale(s.label))
+    .attr('stroke-width', 1.5)
+    .attr('d', (s) => path(s.values));
+
+  const legendEntries = svg
+    .selectAll<SVGGElement, Series>('.legendEntry')
+    .data(series, (s) => s.label)
+    .join((enter) => {
+      const entry = enter.append('g').attr('class', 'legendEntry');
+      entry.append('rect').attr('width', 10).attr('height', 10);
+      entry.append('text').attr('x', 14).attr('y', 9).attr('font-size', 10);
+      return entry;
+    })
+    .attr('transform', (_, i) => `translate(${width - margin.right + 10}, ${margin.top + i * 15})`);
+  legendEntries.select('rect').attr('fill', (s) => colorScale(s.label));
+  legendEntries.select('text').text((s) => s.label);
+}
+
+/**********************************************
+ * Tornado chart
+ *
+ * One horizontal bar per input, from the output's value with the input moved down to its value with the input moved up.
+ * Bars are drawn in the given order, so pass the largest swing first.
+ **********************************************/
+
+export interface TornadoBar {
+  label: string;
+  low: number;
+  high: number;
+}
+
+export function drawTornadoChart(svg: Selection<SVGSVGElement, unknown, HTMLElement, any>, bars: TornadoBar[], base: number) {
+  const width = 400;
+  const barHeight = 18;
+  const margin = { top: 10, right: 15, bottom: 25, left: 90 };
+  const height = margin.top + margin.bottom + Math.max(bars.length, 1) * barHeight;
+  svg.attr('viewBox', `0 0 ${width} ${height}`);
+
+  const values = [base, ...bars.flatMap((b) => [b.low, b.high])].filter(Number.isFinite);
+  const [min, max] = extent([{ label: '', values }]);
+  const xScale = scaleLinear([min, max], [margin.left, width - margin.right]).nice();
+
+  svg
+    .selectAll<SVGGElement, unknown>('.xAxis')
+    .data([null])
+    .join('g')
+    .attr('class', 'xAxis')
+    .attr('transform', `translate(0, ${height - margin.bottom})`)
+    .call(axisBottom(xScale).ticks(5));
+
+  const rows = svg
+    .selectAll<SVGGElement, TornadoBar>('.tornadoBar')
+    .data(bars, (b) => b.label)
+    .join((enter) => {
+      const row = enter.append('g').attr('class', 'tornadoBar');
+      row.append('rect').attr('class', 'down').attr('fill', '#d62728');
+      row.append('rect').attr('class', 'up').attr('fill', '#2ca02c');
+      row.append('text').attr('x', margin.left - 4).attr('y', barHeight / 2 + 3).attr('font-size', 10).attr('text-anchor', 'end');
+      return row;
+    })
+    .attr('transform', (_, i) => `translate(0, ${margin.top + i * barHeight})`);
+  // red: where the output goes when the input goes down; green: when it goes up
+  for (const [side, value] of [['down', (b: TornadoBar) => b.low], ['up', (b: TornadoBar) => b.high]] as const) {
+    rows
+      .select(`rect.${side}`)
+      .attr('x', (b) => xScale(Math.min(base, value(b))))
+      .attr('width', (b) => Math.abs(xScale(value(b)) - xScale(base)))
+      .attr('y', 2)
+      .attr('height', barHeight - 4);
+  }
+  rows.select('text').text((b) => b.label);
+
+  svg
+    .selectAll('.baseLine')
+    .data([base])
+    .join('line')
+    .attr('class', 'baseLine')
+    .attr('x1', (b) => xScale(b))
+    .attr('x2', (b) => xScale(b))
+    .attr('y1', margin.top)
+    .attr('y2', height - margin.bottom)
+    .attr('stroke', 'black');
+}
+
+/**********************************************
+ * Histogram
+ *
+ * Bars for counts per bin, e.g. of the values a node took in a Monte Carlo run,
+ * with vertical lines marking e.g. the mean and percentiles.
+ **********************************************/
+
+export interface HistogramBar {
+  x0: number;
+  x1: number;
+  count: number;
+}
+
+export function drawHistogram(svg: Selection<SVGSVGElement, unknown, HTMLElement, any>, bars: HistogramBar[], markers: { label: string; value: number }[] = []) {
+  const width = 400;
+  const height = 160;
+  const margin = { top: 15, right: 15, bottom: 25, left: 45 };
+  svg.attr('viewBox', `0 0 ${width} ${height}`);
+
+  const [min, max] = extent([{ label: '', values: bars.flatMap((b) => [b.x0, b.x1]) }]);
+  const xScale = scaleLinear([min, max], [margin.left, width - margin.right]).nice();
+  const yScale = scaleLinear([0, Math.max(...bars.map((b) => b.count), 1)], [height - margin.bottom, margin.top]).nice();
+
+  svg
+    .selectAll<SVGGElement, unknown>('.xAxis')
+    .data([null])
+    .join('g')
+    .attr('class', 'xAxis')
+    .attr('transform', `translate(0, ${height - margin.bottom})`)
+    .call(axisBottom(xScale).ticks(5));
+  svg
+    .selectAll<SVGGElement, unknown>('.yAxis')
+    .data([null])
+    .join('g')
+    .attr('class', 'yAxis')
+    .attr('transform', `translate(${margin.left}, 0)`)
+    .call(axisLeft(yScale).ticks(4));
+
+  svg
+    .selectAll('.histogramBar')
+    .data(bars)
+    .join('rect')
+    .attr('class', 'histogramBar')
+    .attr('fill', 'steelblue')
+    .attr('x', (b) => xScale(b.x0))
+    // a single bin of identical values has no width
+    .attr('width', (b) => Math.max(xScale(b.x1) - xScale(b.x0) - 1, 2))
+    .attr('y', (b) => yScale(b.count))
+    .attr('height', (b) => yScale(0) - yScale(b.count));
+
+  const markerGroups = svg
+    .selectAll('.histogramMarker')
+    .data(markers)
+    .join((enter) => {
+      const marker = enter.append('g').attr('class', 'histogramMarker');
+      marker.append('line').attr('stroke', 'black').attr('stroke-dasharray', '3 2');
+      marker.append('text').attr('font-size', 9).attr('text-anchor', 'middle');
+      return marker;
+    });
+  markerGroups
+    .select('line')
+    .attr('x1', (m) => xScale(m.value))
+    .attr('x2', (m) => xScale(m.value))
+    .attr('y1', margin.top)
+    .attr('y2', height - margin.bottom);
+  markerGroups
+    .select('text')
+    .attr('x', (m) => xScale(m.value))
+    .attr('y', margin.top - 3)
+    .text((m) => m.label);
+}
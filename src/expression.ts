@@ -0,0 +1,384 @@
+/**********************************************
+ * Expression language for Node.valueExpression
+ *
+ * A small arithmetic language instead of `eval`:
+ *   - numbers:            1, 0.5, 2e3
+ *   - label references:   "Some label"
+ *   - operators:          + - * / ^, unary minus
+ *   - comparisons:        < <= > >= == != (evaluate to 1 or 0)
+ *   - parentheses
+ *   - function calls:     max("Demand" - "Supply", 0), see ./functions.ts
+ * Nothing else is reachable from an expression.
+ **********************************************/
+
+import { builtinFunctions, type FunctionRegistry } from './functions';
+
+export class ExpressionError extends Error {
+  position: number;
+  source?: string;
+
+  constructor(message: string, position: number, source?: string) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.position = position;
+    this.source = source;
+  }
+}
+
+export function formatExpressionError(error: ExpressionError) {
+  if (error.source === undefined) return `${error.message} (at position ${error.position})`;
+  const before = error.source.slice(0, error.position);
+  const after = error.source.slice(error.position);
+  return `${error.message} (at position ${error.position}): ${before}⟶${after}`;
+}
+
+/**********************************************
+ * Tokenizer
+ **********************************************/
+
+type TokenType = 'number' | 'label' | 'identifier' | 'operator' | 'comparison' | 'leftParen' | 'rightParen' | 'comma' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const operatorChars = '+-*/^';
+const comparisonOperators = ['<=', '>=', '==', '!=', '<', '>'];
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos += 1;
+      continue;
+    }
+
+    if (char === '"') {
+      const closing = source.indexOf('"', pos + 1);
+      if (closing === -1) throw new ExpressionError('Unterminated label, missing closing "', pos);
+      tokens.push({ type: 'label', text: source.slice(pos + 1, closing), position: pos });
+      pos = closing + 1;
+      continue;
+    }
+
+    const numberMatch = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(pos));
+    if (numberMatch) {
+      tokens.push({ type: 'number', text: numberMatch[0], position: pos });
+      pos += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos));
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', text: identifierMatch[0], position: pos });
+      pos += identifierMatch[0].length;
+      continue;
+    }
+
+    const comparison = comparisonOperators.find((op) => source.startsWith(op, pos));
+    if (comparison) {
+      tokens.push({ type: 'comparison', text: comparison, position: pos });
+      pos += comparison.length;
+      continue;
+    }
+
+    if (operatorChars.includes(char)) {
+      tokens.push({ type: 'operator', text: char, position: pos });
+      pos += 1;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'leftParen', text: char, position: pos });
+      pos += 1;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'rightParen', text: char, position: pos });
+      pos += 1;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ type: 'comma', text: char, position: pos });
+      pos += 1;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, pos);
+  }
+
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+/**********************************************
+ * Parser
+ **********************************************/
+
+export type Expression =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'label'; label: string; position: number }
+  | { type: 'unary'; operator: '-'; operand: Expression; position: number }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression; position: number }
+  | { type: 'call'; name: string; args: Expression[]; position: number };
+
+/**
+ * Recursive descent, from lowest to highest precedence:
+ *   comparison := additive (COMPARISON additive)?
+ *   additive   := multiplicative (('+' | '-') multiplicative)*
+ *   multiplicative := unary (('*' | '/') unary)*
+ *   unary      := '-' unary | power
+ *   power      := primary ('^' unary)?          (right-associative, so -2^2 === -4)
+ *   primary    := NUMBER | LABEL | IDENTIFIER '(' arguments? ')' | '(' comparison ')'
+ *   arguments  := comparison (',' comparison)*
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): Expression {
+    if (this.peek().type === 'end') throw new ExpressionError('Empty expression', 0);
+    const expression = this.parseComparison();
+    const next = this.peek();
+    if (next.type !== 'end') throw new ExpressionError(`Unexpected '${next.text}'`, next.position);
+    return expression;
+  }
+
+  private peek() {
+    return this.tokens[this.index];
+  }
+
+  private next() {
+    const token = this.tokens[this.index];
+    this.index += 1;
+    return token;
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.type !== 'comparison') return left;
+    this.next();
+    const right = this.parseAdditive();
+    return { type: 'binary', operator: token.text, left, right, position: token.position };
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (this.peek().type === 'operator' && (this.peek().text === '+' || this.peek().text === '-')) {
+      const token = this.next();
+      const right = this.parseMultiplicative();
+      left = { type: 'binary', operator: token.text, left, right, position: token.position };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    while (this.peek().type === 'operator' && (this.peek().text === '*' || this.peek().text === '/')) {
+      const token = this.next();
+      const right = this.parseUnary();
+      left = { type: 'binary', operator: token.text, left, right, position: token.position };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (token.type === 'operator' && token.text === '-') {
+      this.next();
+      const operand = this.parseUnary();
+      return { type: 'unary', operator: '-', operand, position: token.position };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Expression {
+    const base = this.parsePrimary();
+    const token = this.peek();
+    if (token.type === 'operator' && token.text === '^') {
+      this.next();
+      const exponent = this.parseUnary();
+      return { type: 'binary', operator: '^', left: base, right: exponent, position: token.position };
+    }
+    return base;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.text), position: token.position };
+      case 'label':
+        return { type: 'label', label: token.text, position: token.position };
+      case 'identifier':
+        return this.parseCall(token);
+      case 'leftParen':
+        const inner = this.parseComparison();
+        const closing = this.next();
+        if (closing.type === 'end') throw new ExpressionError("Missing closing ')'", closing.position);
+        if (closing.type !== 'rightParen') throw new ExpressionError(`Expected ')' but found '${closing.text}'`, closing.position);
+        return inner;
+      case 'end':
+        throw new ExpressionError('Unexpected end of expression', token.position);
+      default:
+        throw new ExpressionError(`Unexpected '${token.text}'`, token.position);
+    }
+  }
+
+  private parseCall(nameToken: Token): Expression {
+    if (this.peek().type !== 'leftParen') {
+      throw new ExpressionError(`Unknown name '${nameToken.text}'. Labels must be quoted, like "${nameToken.text}"`, nameToken.position);
+    }
+    this.next();
+
+    const args: Expression[] = [];
+    if (this.peek().type !== 'rightParen') {
+      args.push(this.parseComparison());
+      while (this.peek().type === 'comma') {
+        this.next();
+        args.push(this.parseComparison());
+      }
+    }
+
+    const closing = this.next();
+    if (closing.type === 'end') throw new ExpressionError("Missing closing ')'", closing.position);
+    if (closing.type !== 'rightParen') throw new ExpressionError(`Expected ',' or ')' but found '${closing.text}'`, closing.position);
+    return { type: 'call', name: nameToken.text, args, position: nameToken.position };
+  }
+}
+
+/**
+ * Throws if a function is unknown or called with the wrong number of arguments.
+ */
+function checkCalls(expression: Expression, functions: FunctionRegistry) {
+  switch (expression.type) {
+    case 'unary':
+      checkCalls(expression.operand, functions);
+      break;
+    case 'binary':
+      checkCalls(expression.left, functions);
+      checkCalls(expression.right, functions);
+      break;
+    case 'call':
+      getFunction(expression, functions);
+      for (const arg of expression.args) checkCalls(arg, functions);
+      break;
+  }
+}
+
+function getFunction(call: Extract<Expression, { type: 'call' }>, functions: FunctionRegistry) {
+  const definition = functions.get(call.name);
+  if (!definition) {
+    const known = Array.from(functions.keys()).join(', ');
+    throw new ExpressionError(`Unknown function '${call.name}'. Known functions are: ${known}`, call.position);
+  }
+  const { minArgs, maxArgs } = definition;
+  if (call.args.length < minArgs || (maxArgs !== undefined && call.args.length > maxArgs)) {
+    const expected = maxArgs === undefined ? `at least ${minArgs}` : minArgs === maxArgs ? `${minArgs}` : `${minArgs} to ${maxArgs}`;
+    throw new ExpressionError(`${definition.signature} expects ${expected} argument(s), got ${call.args.length}`, call.position);
+  }
+  return definition;
+}
+
+export function parseExpression(source: string, functions = builtinFunctions): Expression {
+  try {
+    const expression = new Parser(tokenize(source)).parse();
+    checkCalls(expression, functions);
+    return expression;
+  } catch (error) {
+    if (error instanceof ExpressionError) error.source = source;
+    throw error;
+  }
+}
+
+/**
+ * Every label reference in the expression, in order of appearance.
+ * `delayed` references are read at the previous time step (inside `prev(...)`).
+ */
+export function referencedLabels(expression: Expression, functions = builtinFunctions, delayed = false): { label: string; delayed: boolean }[] {
+  switch (expression.type) {
+    case 'number':
+      return [];
+    case 'label':
+      return [{ label: expression.label, delayed }];
+    case 'unary':
+      return referencedLabels(expression.operand, functions, delayed);
+    case 'binary':
+      return [...referencedLabels(expression.left, functions, delayed), ...referencedLabels(expression.right, functions, delayed)];
+    case 'call':
+      const argsDelayed = delayed || !!functions.get(expression.name)?.readsPreviousStep;
+      return expression.args.flatMap((arg) => referencedLabels(arg, functions, argsDelayed));
+  }
+}
+
+/**********************************************
+ * Evaluator
+ **********************************************/
+
+export interface EvaluationContext {
+  lookup: (label: string) => number;
+  functions?: FunctionRegistry;
+  /** Values at the previous time step, read by `prev(...)`. Without it, `prev` reads from this context. */
+  previous?: EvaluationContext;
+}
+
+export function evaluateExpression(expression: Expression, context: EvaluationContext): number {
+  switch (expression.type) {
+    case 'number':
+      return expression.value;
+
+    case 'label':
+      return context.lookup(expression.label);
+
+    case 'unary':
+      return -evaluateExpression(expression.operand, context);
+
+    case 'binary':
+      const left = evaluateExpression(expression.left, context);
+      const right = evaluateExpression(expression.right, context);
+      switch (expression.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return Math.pow(left, right);
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+      }
+      throw new ExpressionError(`Unknown operator '${expression.operator}'`, expression.position);
+
+    case 'call':
+      return evaluateCall(expression, context);
+  }
+}
+
+function evaluateCall(call: Extract<Expression, { type: 'call' }>, context: EvaluationContext) {
+  const definition = getFunction(call, context.functions ?? builtinFunctions);
+  try {
+    if (definition.lazy) {
+      const previous = context.previous ?? context;
+      return definition.apply(call.args.map((arg) => (step) => evaluateExpression(arg, step === 'previous' ? previous : context)));
+    }
+    return definition.apply(call.args.map((arg) => evaluateExpression(arg, context)));
+  } catch (error) {
+    if (error instanceof ExpressionError) throw error;
+    throw new ExpressionError(`${call.name}: ${(error as Error).message}`, call.position);
+  }
+}
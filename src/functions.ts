@@ -0,0 +1,143 @@
+/**********************************************
+ * Function library for Node.valueExpression
+ *
+ * Every function callable from an expression lives in this registry.
+ * To add one, call `registerFunction` (or add an entry to `builtinFunctions`).
+ *
+ * Functions receive their arguments already evaluated.
+ * Functions marked `lazy` instead receive one thunk per argument
+ * and decide themselves which arguments to evaluate (that's how `if` avoids evaluating the branch it doesn't take).
+ * A thunk can also be evaluated against the previous time step of a simulation (that's how `prev` works).
+ *
+ * A function may throw a plain `Error` for invalid input;
+ * the evaluator reports it at the position of the call.
+ **********************************************/
+
+/**
+ * - `same`: all arguments are alike and so is the result, e.g. `max`
+ * - `first`: the result is like the first argument, e.g. `abs`
+ * - `dimensionless`: arguments must be dimensionless, e.g. `exp`
+ * - `squareRoot`: halves the exponents, m^2 becomes m
+ * - `branches`: like `same`, except for the first argument (the condition of `if`)
+ * - `table`: x arguments are alike, y arguments are alike, and the result is like the ys (`lookup`)
+ */
+export type UnitRule = 'same' | 'first' | 'dimensionless' | 'squareRoot' | 'branches' | 'table';
+
+interface FunctionDefinitionBase {
+  /** How the call looks like, shown in the help list, e.g. `clamp(x, lower, upper)` */
+  signature: string;
+  description: string;
+  minArgs: number;
+  /** `undefined` means any number of arguments */
+  maxArgs?: number;
+  /**
+   * Labels inside the arguments are read at the previous time step.
+   * They don't count as dependencies within a step, so `"Capital" = prev("Capital") + "Investment"` is no cycle.
+   */
+  readsPreviousStep?: boolean;
+  /** How units pass through the call, see ./units.ts. Without it the result has no unit. */
+  units?: UnitRule;
+}
+
+interface EagerFunctionDefinition extends FunctionDefinitionBase {
+  lazy?: false;
+  apply: (args: number[]) => number;
+}
+
+/** Evaluates one argument, at the current time step unless asked for the previous one */
+export type LazyArgument = (step?: 'current' | 'previous') => number;
+
+interface LazyFunctionDefinition extends FunctionDefinitionBase {
+  lazy: true;
+  apply: (args: LazyArgument[]) => number;
+}
+
+export type FunctionDefinition = EagerFunctionDefinition | LazyFunctionDefinition;
+
+export type FunctionRegistry = Map<string, FunctionDefinition>;
+
+/**
+ * Piecewise-linear interpolation through the points (x1, y1), (x2, y2), ...
+ * Outside of the given points the first/last y-value is held constant.
+ */
+function piecewiseLinear(x: number, points: number[]) {
+  if (points.length % 2 !== 0) throw new Error('expects pairs of x and y values');
+  const xs = points.filter((_, i) => i % 2 === 0);
+  const ys = points.filter((_, i) => i % 2 === 1);
+  for (let i = 1; i < xs.length; i++) {
+    if (xs[i] <= xs[i - 1]) throw new Error('expects x values in increasing order');
+  }
+
+  if (x <= xs[0]) return ys[0];
+  if (x >= xs[xs.length - 1]) return ys[ys.length - 1];
+  const i = xs.findIndex((xi) => xi > x);
+  const fraction = (x - xs[i - 1]) / (xs[i] - xs[i - 1]);
+  return ys[i - 1] + fraction * (ys[i] - ys[i - 1]);
+}
+
+export const builtinFunctions: FunctionRegistry = new Map<string, FunctionDefinition>([
+  ['min', { signature: 'min(a, b, ...)', description: 'Smallest of the arguments', minArgs: 1, units: 'same', apply: (args) => Math.min(...args) }],
+  ['max', { signature: 'max(a, b, ...)', description: 'Largest of the arguments', minArgs: 1, units: 'same', apply: (args) => Math.max(...args) }],
+  ['sum', { signature: 'sum(a, b, ...)', description: 'Sum of the arguments, e.g. sum("A", "B", "C")', minArgs: 1, units: 'same', apply: (args) => args.reduce((a, b) => a + b, 0) }],
+  ['avg', { signature: 'avg(a, b, ...)', description: 'Arithmetic mean of the arguments', minArgs: 1, units: 'same', apply: (args) => args.reduce((a, b) => a + b, 0) / args.length }],
+  ['abs', { signature: 'abs(x)', description: 'Absolute value', minArgs: 1, maxArgs: 1, units: 'first', apply: ([x]) => Math.abs(x) }],
+  ['sqrt', { signature: 'sqrt(x)', description: 'Square root', minArgs: 1, maxArgs: 1, units: 'squareRoot', apply: ([x]) => Math.sqrt(x) }],
+  ['exp', { signature: 'exp(x)', description: 'e to the power of x', minArgs: 1, maxArgs: 1, units: 'dimensionless', apply: ([x]) => Math.exp(x) }],
+  ['log', {
+    signature: 'log(x, base?)',
+    description: 'Logarithm of x; natural logarithm if no base is given',
+    minArgs: 1,
+    maxArgs: 2,
+    units: 'dimensionless',
+    apply: ([x, base]) => (base === undefined ? Math.log(x) : Math.log(x) / Math.log(base)),
+  }],
+  ['round', {
+    signature: 'round(x, digits?)',
+    description: 'Rounds x to the given number of decimal digits (default 0)',
+    minArgs: 1,
+    maxArgs: 2,
+    units: 'first',
+    apply: ([x, digits = 0]) => Math.round(x * Math.pow(10, digits)) / Math.pow(10, digits),
+  }],
+  ['floor', { signature: 'floor(x)', description: 'Largest integer less than or equal to x', minArgs: 1, maxArgs: 1, units: 'first', apply: ([x]) => Math.floor(x) }],
+  ['ceil', { signature: 'ceil(x)', description: 'Smallest integer greater than or equal to x', minArgs: 1, maxArgs: 1, units: 'first', apply: ([x]) => Math.ceil(x) }],
+  ['clamp', {
+    signature: 'clamp(x, lower, upper)',
+    description: 'x, limited to the range [lower, upper]',
+    minArgs: 3,
+    maxArgs: 3,
+    units: 'same',
+    apply: ([x, lower, upper]) => Math.min(Math.max(x, lower), upper),
+  }],
+  ['if', {
+    signature: 'if(condition, then, else)',
+    description: 'then if condition is non-zero, else otherwise. Only the chosen branch is evaluated',
+    minArgs: 3,
+    maxArgs: 3,
+    lazy: true,
+    units: 'branches',
+    apply: ([condition, then, otherwise]) => (condition() !== 0 ? then() : otherwise()),
+  }],
+  ['prev', {
+    signature: 'prev(x)',
+    description: 'x at the previous time step of the simulation, e.g. prev("Capital"). Outside of a simulation: the last computed value',
+    minArgs: 1,
+    maxArgs: 1,
+    lazy: true,
+    readsPreviousStep: true,
+    units: 'first',
+    apply: ([x]) => x('previous'),
+  }],
+  ['lookup', {
+    signature: 'lookup(x, x1, y1, x2, y2, ...)',
+    description: 'Piecewise-linear table: interpolates between the points (x1, y1), (x2, y2), ...',
+    minArgs: 3,
+    units: 'table',
+    apply: ([x, ...points]) => piecewiseLinear(x, points),
+  }],
+]);
+
+export function registerFunction(name: string, definition: FunctionDefinition, registry = builtinFunctions) {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) throw new Error(`Invalid function name '${name}'`);
+  registry.set(name, definition);
+}
@@ -0,0 +1,171 @@
+import { evaluateNode, getInputNodes, getNodeById, type Graph, type Node } from './graph';
+
+/**********************************************
+ * Goal seek and optimization
+ *
+ * Goal seek: which value of one input makes a target node hit a number? E.g. the price at which profit is 0.
+ * Optimization: which values of several inputs, each within bounds, make a target node as small or as large as possible?
+ *
+ * Both only evaluate; writing the result into the inputs' `valueExpression` is up to the caller.
+ * Inputs not being adjusted keep their current values.
+ **********************************************/
+
+/**
+ * The target's value as a function of some inputs' values.
+ * Throws like `evaluateNode`, e.g. a `CycleError` if the target is part of a feedback loop.
+ */
+function targetFunction(graph: Graph, targetId: Node['id'], inputIds: Node['id'][]) {
+  const copy = structuredClone(graph);
+  for (const input of getInputNodes(copy)) input.valueExpression = `${input.value}`;
+  const target = getNodeById(copy, targetId);
+  const inputs = inputIds.map((id) => getNodeById(copy, id));
+  return (values: number[]) => {
+    inputs.forEach((input, i) => (input.valueExpression = `${values[i]}`));
+    return evaluateNode(target, copy);
+  };
+}
+
+export interface GoalSeekOptions {
+  targetId: Node['id'];
+  targetValue: number;
+  inputId: Node['id'];
+  /** done once the target is this close to `targetValue` */
+  tolerance: number;
+  maxIterations: number;
+}
+
+export interface GoalSeekResult {
+  status: 'found' | 'notFound';
+  /** the input value; for `notFound` the best one tried */
+  value: number;
+  /** the target's value with the input at `value` */
+  achieved: number;
+  iterations: number;
+}
+
+/**
+ * Secant steps from the input's current value, which find the root quickly if the target is smooth.
+ * If they don't, searches outwards for a value on the other side of the goal, then bisects between the two,
+ * which always works for continuous targets once the goal is bracketed.
+ */
+export function goalSeek(graph: Graph, options: GoalSeekOptions): GoalSeekResult {
+  const { targetValue, tolerance, maxIterations } = options;
+  const evaluate = targetFunction(graph, options.targetId, [options.inputId]);
+  const f = (x: number) => evaluate([x]) - targetValue;
+  let iterations = 0;
+  let best = { value: getNodeById(graph, options.inputId).value, error: Infinity };
+  const tried = (x: number) => {
+    iterations += 1;
+    const error = f(x);
+    if (Number.isFinite(error) && Math.abs(error) < Math.abs(best.error)) best = { value: x, error };
+    return error;
+  };
+  const result = (status: GoalSeekResult['status']): GoalSeekResult => ({ status, value: best.value, achieved: best.error + targetValue, iterations });
+
+  // secant
+  let x0 = best.value;
+  let x1 = x0 === 0 ? 1 : x0 * 1.1;
+  let f0 = tried(x0);
+  let f1 = tried(x1);
+  for (let i = 0; i < maxIterations / 2 && Number.isFinite(f0) && Number.isFinite(f1) && f1 !== f0; i++) {
+    if (Math.abs(f1) <= tolerance) return result('found');
+    const x2 = x1 - (f1 * (x1 - x0)) / (f1 - f0);
+    [x0, f0] = [x1, f1];
+    x1 = x2;
+    f1 = tried(x1);
+  }
+  if (Math.abs(best.error) <= tolerance) return result('found');
+
+  // bracket: step away from the best value so far, doubling the step each time, until the sign changes
+  const start = best.value;
+  const fStart = best.error;
+  let step = Math.abs(start) * 0.1 || 1;
+  let bracket: [number, number] | undefined;
+  while (!bracket && iterations < maxIterations) {
+    for (const x of [start - step, start + step]) {
+      const fx = tried(x);
+      if (Number.isFinite(fx) && Math.sign(fx) !== Math.sign(fStart)) bracket = x < start ? [x, start] : [start, x];
+    }
+    step *= 2;
+  }
+  if (!bracket) return result('notFound');
+
+  // bisection
+  let [low, high] = bracket;
+  const lowSign = Math.sign(f(low));
+  while (iterations < maxIterations) {
+    const middle = (low + high) / 2;
+    const fMiddle = tried(middle);
+    if (Math.abs(fMiddle) <= tolerance) return result('found');
+    if (Math.sign(fMiddle) === lowSign) low = middle;
+    else high = middle;
+  }
+  return result(Math.abs(best.error) <= tolerance ? 'found' : 'notFound');
+}
+
+export interface BoundedInput {
+  nodeId: Node['id'];
+  min: number;
+  max: number;
+}
+
+export interface OptimizeOptions {
+  targetId: Node['id'];
+  direction: 'minimize' | 'maximize';
+  inputs: BoundedInput[];
+  maxIterations: number;
+}
+
+export interface OptimizeResult {
+  /** by input, in the order of `options.inputs` */
+  values: number[];
+  achieved: number;
+  iterations: number;
+  /** `false` if `maxIterations` ran out while steps were still improving the target */
+  converged: boolean;
+}
+
+/**
+ * Pattern search: tries a step up and down along every input, keeps whatever improves the target,
+ * and halves the steps when nothing does. Needs no derivatives and never leaves the bounds,
+ * but like every local method it may stop at a local optimum.
+ */
+export function optimize(graph: Graph, options: OptimizeOptions): OptimizeResult {
+  const evaluate = targetFunction(graph, options.targetId, options.inputs.map((i) => i.nodeId));
+  const sign = options.direction === 'minimize' ? 1 : -1;
+  // the search minimizes; failed evaluations count as the worst possible outcome
+  const cost = (values: number[]) => {
+    const value = sign * evaluate(values);
+    return Number.isFinite(value) ? value : Infinity;
+  };
+  const clamp = (value: number, { min, max }: BoundedInput) => Math.min(max, Math.max(min, value));
+
+  let values = options.inputs.map((input) => clamp(getNodeById(graph, input.nodeId).value, input));
+  let best = cost(values);
+  const steps = options.inputs.map((input) => (input.max - input.min) / 4);
+  const minSteps = options.inputs.map((input) => (input.max - input.min) * 1e-9);
+  let iterations = 0;
+
+  while (iterations < options.maxIterations) {
+    if (steps.every((step, i) => step <= minSteps[i])) {
+      return { values, achieved: sign * best, iterations, converged: true };
+    }
+    iterations += 1;
+    let improved = false;
+    options.inputs.forEach((input, i) => {
+      for (const direction of [-1, 1]) {
+        const candidate = [...values];
+        candidate[i] = clamp(values[i] + direction * steps[i], input);
+        const candidateCost = cost(candidate);
+        if (candidateCost < best) {
+          values = candidate;
+          best = candidateCost;
+          improved = true;
+          return;
+        }
+      }
+    });
+    if (!improved) steps.forEach((step, i) => (steps[i] = step / 2));
+  }
+  return { values, achieved: sign * best, iterations, converged: false };
+}
@@ -0,0 +1,787 @@
+import { ExpressionError, evaluateExpression, formatExpressionError, parseExpression, referencedLabels, type Expression } from './expression';
+import { applyUnits, parseUnit, UnitError } from './units';
+
+/**********************************************
+ * Model data and helpers
+ **********************************************/
+
+/**
+ * We deliberately keep value and valueExpression side by side
+ * - even though one _should_ be derived from the other.
+ * Because we want to slowly iterate through the graph,
+ * re-evaluating valueExpression on every step, to _visually_ update value.
+ * It is by design that these two may be inconsistent for a while.
+ *
+ * Edges, too, can be derived from value-expressions. Still we maintain them explicitly.
+ * Here, however, this is more for performance reasons.
+ */
+
+export interface Node {
+  id: number;
+  x: number; // between 0 and 1
+  y: number; // between 0 and 1
+  label: string;
+  valueExpression: string;
+  value: number;
+  /** Outcome of the last evaluation; missing means it hasn't failed yet */
+  status?: NodeStatus;
+  /** Auto layout leaves pinned nodes where they are */
+  pinned?: boolean;
+  /** Uncertainty of an input: a Monte Carlo run samples from this instead of using `value`. See ./montecarlo.ts */
+  distribution?: Distribution;
+  /** e.g. `bn EUR`, `%` or `people/km^2`; `value` is in this unit. See ./units.ts */
+  unit?: string;
+}
+
+/**
+ * lognormal: `mu` and `sigma` are those of the underlying normal, i.e. of log(value)
+ */
+export type Distribution =
+  | { kind: 'normal'; mean: number; sd: number }
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'triangular'; min: number; mode: number; max: number }
+  | { kind: 'lognormal'; mu: number; sigma: number };
+
+/**
+ * `unitMismatch`: the expression parses, but combines or returns the wrong units, e.g. `"GDP" + "Unemployment rate"`.
+ * `stale`: the node itself is fine, but something it depends on failed,
+ * so its `value` is left over from before.
+ * On error `value` keeps the last good value as well.
+ */
+export type NodeStatusKind = 'ok' | 'missingReference' | 'syntaxError' | 'cycle' | 'invalidNumber' | 'unitMismatch' | 'stale';
+
+export interface NodeStatus {
+  kind: NodeStatusKind;
+  message?: string;
+}
+
+export interface Edge {
+  source: Node['id'];
+  target: Node['id'];
+  /** target only reads source at the previous time step, via `prev(...)`. Not a dependency within one step. */
+  delayed?: boolean;
+}
+
+/**
+ * A named group of nodes, drawn as one box. See ./modules.ts.
+ */
+export interface Module {
+  id: number;
+  name: string;
+  nodeIds: Node['id'][];
+  /** collapsed modules hide their nodes and show only their ports */
+  collapsed: boolean;
+}
+
+/**
+ * A named what-if: input nodes set to other values than their expressions give. See ./scenarios.ts.
+ */
+export interface Scenario {
+  id: number;
+  name: string;
+  overrides: ScenarioOverride[];
+}
+
+export interface ScenarioOverride {
+  nodeId: Node['id'];
+  value: number;
+}
+
+export interface Graph {
+  nodes: Node[];
+  edges: Edge[];
+  /** every node belongs to at most one module */
+  modules?: Module[];
+  scenarios?: Scenario[];
+}
+
+export function updateEdges(graph: Graph) {
+  graph.edges = [];
+  for (const targetNode of graph.nodes) {
+    const labels = extractLabels(targetNode.valueExpression);
+    const delayedLabels = extractDelayedLabels(targetNode.valueExpression);
+    for (const label of labels) {
+      const sourceNode = graph.nodes.find((n) => n.label === label);
+      if (!sourceNode) continue;
+      if (delayedLabels.has(label)) graph.edges.push({ source: sourceNode.id, target: targetNode.id, delayed: true });
+      else graph.edges.push({ source: sourceNode.id, target: targetNode.id });
+    }
+  }
+}
+
+/**
+ * Edges that order evaluation within one step, i.e. all but the `delayed` ones.
+ */
+export function sameStepEdges(graph: Graph) {
+  return graph.edges.filter((e) => !e.delayed);
+}
+
+/**
+ * Labels that an expression reads only at the previous time step.
+ */
+function extractDelayedLabels(valueString: string): Set<string> {
+  let references: ReturnType<typeof referencedLabels>;
+  try {
+    references = referencedLabels(parseExpression(valueString));
+  } catch {
+    return new Set();
+  }
+  const readNow = new Set(references.filter((r) => !r.delayed).map((r) => r.label));
+  return new Set(references.filter((r) => r.delayed && !readNow.has(r.label)).map((r) => r.label));
+}
+
+export function extractLabels(valueString: string): string[] {
+  const labels: string[] = [];
+  mapLabels(valueString, (label) => {
+    labels.push(label);
+    return label;
+  });
+  return labels;
+}
+
+/**
+ * Calls `replace` for every quoted label in `valueString` and puts its result in place of the label.
+ * Everything outside the quotes - and an unterminated quote at the end - is kept as it is.
+ */
+function mapLabels(valueString: string, replace: (label: string) => string): string {
+  let result = '';
+  let currentLabel: string | undefined = undefined;
+  for (const currentChar of valueString) {
+    if (currentChar === '"') {
+      if (currentLabel === undefined) {
+        currentLabel = '';
+      } else {
+        result += `"${replace(currentLabel)}"`;
+        currentLabel = undefined;
+      }
+    } else {
+      if (currentLabel !== undefined) currentLabel += currentChar;
+      else result += currentChar;
+    }
+  }
+  if (currentLabel !== undefined) result += `"${currentLabel}`;
+  return result;
+}
+
+/**
+ * Rewrites every reference to `oldLabel` in `valueString`, and nothing else:
+ * renaming `A` leaves `"Apple"` and a bare `A` alone.
+ */
+export function renameLabel(valueString: string, oldLabel: string, newLabel: string): string {
+  return renameLabels(valueString, new Map([[oldLabel, newLabel]]));
+}
+
+/**
+ * Like `renameLabel`, for several labels at once: `"A"` -> `"B"` and `"B"` -> `"C"` don't turn `"A"` into `"C"`.
+ */
+export function renameLabels(valueString: string, renames: Map<string, string>): string {
+  return mapLabels(valueString, (label) => renames.get(label) ?? label);
+}
+
+export class LabelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LabelError';
+  }
+}
+
+/**
+ * Labels are how expressions reference nodes, so they must be non-empty, unique and free of quotes.
+ * `nodeId` is the node that is going to carry the label, so it doesn't clash with itself.
+ */
+export function checkLabel(graph: Graph, label: string, nodeId?: number) {
+  if (label.trim() === '') throw new LabelError('Label must not be empty');
+  if (label.includes('"')) throw new LabelError('Label must not contain \'"\'');
+  const other = graph.nodes.find((n) => n.label === label && n.id !== nodeId);
+  if (other) throw new LabelError(`Label "${label}" is already used by another node`);
+}
+
+/**
+ * `base`, or `base 2`, `base 3`, ... - whichever is still free.
+ */
+export function uniqueLabel(graph: Graph, base: string): string {
+  const used = new Set(graph.nodes.map((n) => n.label));
+  if (!used.has(base)) return base;
+  let i = 2;
+  while (used.has(`${base} ${i}`)) i += 1;
+  return `${base} ${i}`;
+}
+
+export class MissingReferenceError extends Error {
+  label: string;
+
+  constructor(label: string) {
+    super(`Unknown label "${label}"`);
+    this.name = 'MissingReferenceError';
+    this.label = label;
+  }
+}
+
+/**
+ * Throws a `MissingReferenceError` instead of returning `undefined`, e.g. for a reference to a deleted node.
+ */
+export function getNodeByLabel(graph: Graph, label: string) {
+  const node = graph.nodes.find((n) => n.label === label);
+  if (!node) throw new MissingReferenceError(label);
+  return node;
+}
+
+export class CycleError extends Error {
+  labels: string[];
+
+  constructor(labels: string[]) {
+    super(`Cyclic reference: ${labels.map((l) => `"${l}"`).join(' -> ')}`);
+    this.name = 'CycleError';
+    this.labels = labels;
+  }
+}
+
+/**
+ * The node's parsed valueExpression, converted to compute in the node's unit (see ./units.ts).
+ * Throws an `ExpressionError` if it doesn't parse and a `UnitError` if its units don't fit.
+ */
+export function nodeExpression(graph: Graph, node: Node): Expression {
+  const expression = parseExpression(node.valueExpression);
+  try {
+    const unitOf = (label: string) => parseUnit(graph.nodes.find((n) => n.label === label)?.unit);
+    return applyUnits(expression, unitOf, parseUnit(node.unit));
+  } catch (error) {
+    if (error instanceof UnitError && error.source === undefined) error.source = node.valueExpression;
+    throw error;
+  }
+}
+
+/**
+ * With `recursive = false` referenced nodes contribute their current `value`.
+ * With `recursive = true` their valueExpression is evaluated as well, all the way up;
+ * that only works for acyclic parts of the graph - for feedback loops use `solveGraph`.
+ * `prev(...)` always reads the current `value`, never recursing.
+ */
+export function evaluateNode(node: Node, graph: Graph, recursive = true, visiting: string[] = []): number {
+  const expression = nodeExpression(graph, node);
+  try {
+    return evaluateExpression(expression, {
+      lookup: (label) => {
+        const referenced = getNodeByLabel(graph, label);
+        if (!recursive) return referenced.value;
+        if (visiting.includes(label)) throw new CycleError([...visiting.slice(visiting.indexOf(label)), label]);
+        return evaluateNode(referenced, graph, recursive, [...visiting, label]);
+      },
+      previous: {
+        lookup: (label) => getNodeByLabel(graph, label).value,
+      },
+    });
+  } catch (error) {
+    // errors from referenced nodes' expressions already carry their own source
+    if (error instanceof ExpressionError && error.source === undefined) error.source = node.valueExpression;
+    throw error;
+  }
+}
+
+export function getNodeById(graph: Graph, id: number) {
+  return graph.nodes.find((n) => n.id === id)!;
+}
+
+export function getChildren(node: Node, graph: Graph) {
+  const children = graph.edges
+      .filter(e => e.source === node.id)
+      .map(e => e.target)
+      .map(targetId => getNodeById(graph, targetId));
+  return children;
+}
+
+/**
+ * Nodes that don't reference any other node: the model's inputs.
+ */
+export function getInputNodes(graph: Graph) {
+  return graph.nodes.filter((n) => !graph.edges.some((e) => e.target === n.id));
+}
+
+/**********************************************
+ * Cycles and feedback loops
+ **********************************************/
+
+/**
+ * Returns the strongly connected components of the graph that contain a cycle,
+ * i.e. every group of nodes that (directly or indirectly) depend on each other.
+ * Uses Tarjan's algorithm over `graph.edges`, ignoring `delayed` ones.
+ */
+export function findCycles(graph: Graph): Node['id'][][] {
+  let index = 0;
+  const indices = new Map<number, number>();
+  const lowLinks = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const components: number[][] = [];
+  const edges = sameStepEdges(graph);
+
+  function strongConnect(id: number) {
+    indices.set(id, index);
+    lowLinks.set(id, index);
+    index += 1;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const edge of edges.filter((e) => e.source === id)) {
+      if (!indices.has(edge.target)) {
+        strongConnect(edge.target);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(edge.target)!));
+      } else if (onStack.has(edge.target)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(edge.target)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      const isSelfLoop = edges.some((e) => e.source === id && e.target === id);
+      if (component.length > 1 || isSelfLoop) components.push(component.reverse());
+    }
+  }
+
+  for (const node of graph.nodes) {
+    if (!indices.has(node.id)) strongConnect(node.id);
+  }
+  return components;
+}
+
+export function isCyclicEdge(edge: Edge, cycles: Node['id'][][]) {
+  if (edge.delayed) return false;
+  return cycles.some((c) => c.includes(edge.source) && c.includes(edge.target));
+}
+
+export interface SolveOptions {
+  /** Converged once no value changes by more than `tolerance` (relative to its magnitude, for values > 1) */
+  tolerance: number;
+  maxIterations: number;
+}
+
+export interface SolveResult {
+  status: 'converged' | 'diverged' | 'maxIterationsReached';
+  iterations: number;
+  /** Largest change of any value in the last iteration */
+  residual: number;
+}
+
+/**
+ * Fixed-point iteration (Gauss-Seidel style): re-evaluates the nodes in and downstream of feedback loops
+ * from their neighbours' current values until values stop changing.
+ * Everything else is read at its current `value`; it doesn't depend on the loops, so plain recalculation is enough there.
+ * Loops converge if they are damped (e.g. consumption = 0.8 * income), otherwise we report divergence.
+ *
+ * Like `recalculateNode`, never throws for a broken node: it gets an error `status`, keeps its value,
+ * and everything downstream of it is marked stale and left out.
+ * Only finishes with new values (and an `ok` status) for the solved nodes if converged; otherwise their values are left unchanged.
+ */
+export function solveGraph(graph: Graph, options: SolveOptions): SolveResult {
+  const { cyclic } = topologicalOrder(graph);
+  const values = new Map(graph.nodes.map((n) => [n.id, n.value]));
+  const lookup = (label: string) => values.get(getNodeByLabel(graph, label).id)!;
+  // `prev(...)` keeps reading the values from before solving
+  const previous = { lookup: (label: string) => getNodeByLabel(graph, label).value };
+
+  const failed = new Set<Node['id']>();
+  const fail = (node: Node, status: NodeStatus) => {
+    node.status = status;
+    failed.add(node.id);
+    for (const id of getDownstream(graph, [node.id])) {
+      if (failed.has(id)) continue;
+      failed.add(id);
+      getNodeById(graph, id).status = { kind: 'stale', message: `Depends on "${node.label}", which failed` };
+    }
+  };
+
+  const expressions = new Map<Node['id'], Expression>();
+  for (const id of cyclic) {
+    const node = getNodeById(graph, id);
+    if (failed.has(id)) continue;
+    try {
+      expressions.set(id, nodeExpression(graph, node));
+    } catch (error) {
+      const isSyntaxError = error instanceof ExpressionError && !(error instanceof UnitError);
+      fail(node, isSyntaxError ? { kind: 'syntaxError', message: formatExpressionError(error) } : statusOfError(error));
+    }
+  }
+
+  let residual = Infinity;
+  let lastAbsoluteChange = Infinity;
+  let growingFor = 0;
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    let maxDelta = 0;
+    let maxAbsoluteChange = 0;
+    for (const id of cyclic) {
+      if (failed.has(id)) continue;
+      const node = getNodeById(graph, id);
+      const oldValue = values.get(id)!;
+      let newValue: number;
+      try {
+        newValue = evaluateExpression(expressions.get(id)!, { lookup, previous });
+      } catch (error) {
+        fail(node, statusOfError(error));
+        continue;
+      }
+      if (!Number.isFinite(newValue)) return { status: 'diverged', iterations: iteration, residual: Infinity };
+      values.set(id, newValue);
+      maxDelta = Math.max(maxDelta, Math.abs(newValue - oldValue) / Math.max(1, Math.abs(newValue)));
+      maxAbsoluteChange = Math.max(maxAbsoluteChange, Math.abs(newValue - oldValue));
+    }
+    residual = maxDelta;
+
+    // changes that keep growing mean the loop amplifies itself instead of settling
+    growingFor = maxAbsoluteChange > lastAbsoluteChange ? growingFor + 1 : 0;
+    lastAbsoluteChange = maxAbsoluteChange;
+    if (growingFor >= 20) return { status: 'diverged', iterations: iteration, residual };
+
+    if (residual <= options.tolerance) {
+      for (const id of cyclic.filter((id) => !failed.has(id))) {
+        const node = getNodeById(graph, id);
+        node.value = values.get(id)!;
+        node.status = { kind: 'ok' };
+      }
+      return { status: 'converged', iterations: iteration, residual };
+    }
+  }
+  return { status: 'maxIterationsReached', iterations: options.maxIterations, residual };
+}
+
+/**********************************************
+ * Recalculation
+ **********************************************/
+
+/**
+ * All nodes that (transitively) depend on one of `startIds`, including the start nodes themselves.
+ */
+export function getDownstream(graph: Graph, startIds: Node['id'][]): Set<Node['id']> {
+  const downstream = new Set<number>(startIds);
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of sameStepEdges(graph)) {
+      if (edge.source === id && !downstream.has(edge.target)) {
+        downstream.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+  return downstream;
+}
+
+/**
+ * Kahn's algorithm over the nodes in `ids` (default: all nodes), using only the edges between them.
+ * Every node comes after all nodes it depends on.
+ * Nodes that are part of (or downstream of) a cycle can't be ordered; they are returned separately in `cyclic`.
+ */
+export function topologicalOrder(graph: Graph, ids?: Set<Node['id']>): { order: Node['id'][]; cyclic: Node['id'][] } {
+  const included = ids ?? new Set(graph.nodes.map((n) => n.id));
+  const edges = sameStepEdges(graph).filter((e) => included.has(e.source) && included.has(e.target));
+
+  const inDegree = new Map<number, number>();
+  for (const id of included) inDegree.set(id, 0);
+  for (const edge of edges) inDegree.set(edge.target, inDegree.get(edge.target)! + 1);
+
+  // keep graph.nodes order among nodes that are ready at the same time, so the result is stable
+  const ready = graph.nodes.map((n) => n.id).filter((id) => included.has(id) && inDegree.get(id) === 0);
+  const order: number[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const edge of edges) {
+      if (edge.source !== id) continue;
+      inDegree.set(edge.target, inDegree.get(edge.target)! - 1);
+      if (inDegree.get(edge.target) === 0) ready.push(edge.target);
+    }
+  }
+
+  const cyclic = Array.from(included).filter((id) => !order.includes(id));
+  return { order, cyclic };
+}
+
+/**
+ * Order in which to re-evaluate after `changedIds` changed, like a spreadsheet:
+ * every downstream node exactly once, after everything it depends on.
+ */
+export function recalculationOrder(graph: Graph, changedIds: Node['id'][]) {
+  return topologicalOrder(graph, getDownstream(graph, changedIds));
+}
+
+export interface ValueChange {
+  nodeId: Node['id'];
+  oldValue: number;
+  newValue: number;
+}
+
+export function hasFailed(node: Node) {
+  return node.status !== undefined && node.status.kind !== 'ok';
+}
+
+/**
+ * Turns whatever evaluating a node threw into its status. Rethrows anything that isn't an evaluation error.
+ */
+export function statusOfError(error: unknown): NodeStatus {
+  if (error instanceof MissingReferenceError) return { kind: 'missingReference', message: `References unknown label "${error.label}"` };
+  if (error instanceof CycleError) return { kind: 'cycle', message: error.message };
+  if (error instanceof UnitError) return { kind: 'unitMismatch', message: formatExpressionError(error) };
+  // expressions that parse fail at evaluation only if a function rejects its input, e.g. `lookup` with unsorted points
+  if (error instanceof ExpressionError) return { kind: 'invalidNumber', message: formatExpressionError(error) };
+  throw error;
+}
+
+function statusOfValue(value: number): NodeStatus {
+  if (Number.isNaN(value)) return { kind: 'invalidNumber', message: 'Result is not a number, e.g. 0 / 0' };
+  if (!Number.isFinite(value)) return { kind: 'invalidNumber', message: 'Result is infinite, e.g. 1 / 0 or exp(1000)' };
+  return { kind: 'ok' };
+}
+
+/**
+ * Marks everything downstream of `id` as stale, except for nodes that failed on their own.
+ */
+function markDownstreamStale(graph: Graph, id: Node['id']) {
+  const node = getNodeById(graph, id);
+  for (const downstreamId of getDownstream(graph, [id])) {
+    const downstream = getNodeById(graph, downstreamId);
+    if (downstreamId === id || (hasFailed(downstream) && downstream.status!.kind !== 'stale')) continue;
+    downstream.status = { kind: 'stale', message: `Depends on "${node.label}", which failed` };
+  }
+}
+
+/**
+ * Never throws for a broken expression: a node that can't be evaluated gets an error `status`,
+ * keeps its last good value and makes everything downstream stale.
+ * Nodes in a feedback loop can't be evaluated one at a time either; they get a `cycle` status until `solveGraph` settles them.
+ * `cycles` is what `findCycles` returns; pass it in when recalculating many nodes, so it's computed once.
+ */
+export function recalculateNode(graph: Graph, id: Node['id'], cycles = findCycles(graph)): ValueChange {
+  const node = getNodeById(graph, id);
+  const oldValue = node.value;
+
+  const cycle = cycles.find((c) => c.includes(id));
+  if (cycle) {
+    const labels = cycle.map((memberId) => getNodeById(graph, memberId).label);
+    node.status = statusOfError(new CycleError([...labels, labels[0]]));
+    markDownstreamStale(graph, id);
+    return { nodeId: id, oldValue, newValue: oldValue };
+  }
+
+  const failedParent = graph.edges
+    .filter((e) => e.target === id && !e.delayed)
+    .map((e) => getNodeById(graph, e.source))
+    .find(hasFailed);
+  if (failedParent) {
+    node.status = { kind: 'stale', message: `Depends on "${failedParent.label}", which failed` };
+    return { nodeId: id, oldValue, newValue: oldValue };
+  }
+
+  let value: number;
+  node.status = { kind: 'ok' };
+  try {
+    parseExpression(node.valueExpression);
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) throw error;
+    node.status = { kind: 'syntaxError', message: formatExpressionError(error) };
+  }
+  if (!hasFailed(node)) {
+    try {
+      value = evaluateNode(node, graph, false);
+      node.status = statusOfValue(value);
+    } catch (error) {
+      node.status = statusOfError(error);
+    }
+  }
+  if (hasFailed(node)) {
+    markDownstreamStale(graph, id);
+    return { nodeId: id, oldValue, newValue: oldValue };
+  }
+  node.value = value!;
+  return { nodeId: id, oldValue, newValue: node.value };
+}
+
+export function recalculate(graph: Graph, order: Node['id'][]): ValueChange[] {
+  const cycles = findCycles(graph);
+  return order.map((id) => recalculateNode(graph, id, cycles));
+}
+
+/**********************************************
+ * Validation
+ **********************************************/
+
+export function isNode(el: any): el is Node {
+  return describeNodeProblems(el).length === 0;
+}
+
+export function isEdge(el: any): el is Edge {
+  return describeEdgeProblems(el).length === 0;
+}
+
+function describeType(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function describeNodeProblems(el: any): string[] {
+  if (typeof el !== 'object' || el === null || Array.isArray(el)) return [`must be an object, got ${describeType(el)}`];
+  const problems: string[] = [];
+  for (const key of ['id', 'x', 'y', 'value'] as const) {
+    if (typeof el[key] !== 'number') problems.push(`"${key}" must be a number, got ${describeType(el[key])}`);
+  }
+  for (const key of ['label', 'valueExpression'] as const) {
+    if (typeof el[key] !== 'string') problems.push(`"${key}" must be a string, got ${describeType(el[key])}`);
+  }
+  if (el.pinned !== undefined && typeof el.pinned !== 'boolean') problems.push(`"pinned" must be a boolean, got ${describeType(el.pinned)}`);
+  if (el.unit !== undefined) {
+    if (typeof el.unit !== 'string') problems.push(`"unit" must be a string, got ${describeType(el.unit)}`);
+    else {
+      try {
+        parseUnit(el.unit);
+      } catch (error) {
+        if (!(error instanceof UnitError)) throw error;
+        problems.push(`"unit" is invalid: ${error.message} at position ${error.position}`);
+      }
+    }
+  }
+  if (el.distribution !== undefined) problems.push(...describeDistributionProblems(el.distribution).map((p) => `"distribution": ${p}`));
+  if (problems.length === 0) {
+    try {
+      parseExpression(el.valueExpression);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      problems.push(`"valueExpression" is invalid: ${error.message} at position ${error.position}`);
+    }
+  }
+  return problems;
+}
+
+/** parameters of every kind of distribution, in the order they are usually written */
+export const distributionParameters: Record<Distribution['kind'], string[]> = {
+  normal: ['mean', 'sd'],
+  uniform: ['min', 'max'],
+  triangular: ['min', 'mode', 'max'],
+  lognormal: ['mu', 'sigma'],
+};
+
+export function describeDistributionProblems(el: any): string[] {
+  if (typeof el !== 'object' || el === null || Array.isArray(el)) return [`must be an object, got ${describeType(el)}`];
+  if (!(el.kind in distributionParameters)) return [`"kind" must be one of ${Object.keys(distributionParameters).join(', ')}, got ${JSON.stringify(el.kind)}`];
+  const problems: string[] = [];
+  for (const key of distributionParameters[el.kind as Distribution['kind']]) {
+    if (!Number.isFinite(el[key])) problems.push(`"${key}" must be a number, got ${describeType(el[key])}`);
+  }
+  if (problems.length > 0) return problems;
+  if ((el.kind === 'normal' && el.sd < 0) || (el.kind === 'lognormal' && el.sigma < 0)) problems.push('the spread must not be negative');
+  if ((el.kind === 'uniform' || el.kind === 'triangular') && el.min > el.max) problems.push('"min" must not be larger than "max"');
+  if (el.kind === 'triangular' && (el.mode < el.min || el.mode > el.max)) problems.push('"mode" must be between "min" and "max"');
+  return problems;
+}
+
+function describeEdgeProblems(el: any): string[] {
+  if (typeof el !== 'object' || el === null || Array.isArray(el)) return [`must be an object, got ${describeType(el)}`];
+  const problems: string[] = [];
+  for (const key of ['source', 'target'] as const) {
+    if (typeof el[key] !== 'number') problems.push(`"${key}" must be a number, got ${describeType(el[key])}`);
+  }
+  if (el.delayed !== undefined && typeof el.delayed !== 'boolean') problems.push(`"delayed" must be a boolean, got ${describeType(el.delayed)}`);
+  return problems;
+}
+
+function describeModuleProblems(el: any): string[] {
+  if (typeof el !== 'object' || el === null || Array.isArray(el)) return [`must be an object, got ${describeType(el)}`];
+  const problems: string[] = [];
+  if (typeof el.id !== 'number') problems.push(`"id" must be a number, got ${describeType(el.id)}`);
+  if (typeof el.name !== 'string') problems.push(`"name" must be a string, got ${describeType(el.name)}`);
+  if (typeof el.collapsed !== 'boolean') problems.push(`"collapsed" must be a boolean, got ${describeType(el.collapsed)}`);
+  if (!Array.isArray(el.nodeIds) || el.nodeIds.some((id: unknown) => typeof id !== 'number')) problems.push('"nodeIds" must be an array of numbers');
+  return problems;
+}
+
+function describeScenarioProblems(el: any): string[] {
+  if (typeof el !== 'object' || el === null || Array.isArray(el)) return [`must be an object, got ${describeType(el)}`];
+  const problems: string[] = [];
+  if (typeof el.id !== 'number') problems.push(`"id" must be a number, got ${describeType(el.id)}`);
+  if (typeof el.name !== 'string') problems.push(`"name" must be a string, got ${describeType(el.name)}`);
+  if (!Array.isArray(el.overrides) || el.overrides.some((o: any) => typeof o?.nodeId !== 'number' || typeof o?.value !== 'number')) {
+    problems.push('"overrides" must be an array of { nodeId, value } with numbers');
+  }
+  return problems;
+}
+
+/**
+ * Checks that `json` (e.g. a parsed graph.json) is a well-formed `Graph`.
+ * Returns every problem found, each prefixed with the node or edge it concerns, e.g. `nodes[2] (id 5): "x" must be a number, got string`.
+ */
+export function validateGraph(json: unknown): { graph: Graph; errors: [] } | { graph: undefined; errors: string[] } {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return { graph: undefined, errors: [`graph must be an object with "nodes" and "edges", got ${describeType(json)}`] };
+  }
+  const candidate = json as any;
+  if (!Array.isArray(candidate.nodes) || !Array.isArray(candidate.edges)) {
+    return { graph: undefined, errors: ['graph must have a "nodes" and an "edges" array'] };
+  }
+
+  const errors: string[] = [];
+  const nodeIds = new Set<number>();
+  candidate.nodes.forEach((node: any, i: number) => {
+    const name = `nodes[${i}]` + (typeof node?.id === 'number' ? ` (id ${node.id})` : '');
+    for (const problem of describeNodeProblems(node)) errors.push(`${name}: ${problem}`);
+    if (typeof node?.id !== 'number') return;
+    if (nodeIds.has(node.id)) errors.push(`${name}: duplicate id ${node.id}`);
+    nodeIds.add(node.id);
+  });
+
+  const labels = new Set<string>();
+  candidate.nodes.forEach((node: any, i: number) => {
+    if (!isNode(node)) return;
+    if (node.label.trim() === '') errors.push(`nodes[${i}] (id ${node.id}): "label" must not be empty`);
+    else if (labels.has(node.label)) errors.push(`nodes[${i}] (id ${node.id}): duplicate label "${node.label}"`);
+    labels.add(node.label);
+  });
+  candidate.nodes.forEach((node: any, i: number) => {
+    if (!isNode(node)) return;
+    for (const label of extractLabels(node.valueExpression)) {
+      if (!labels.has(label)) errors.push(`nodes[${i}] (id ${node.id}): "valueExpression" references unknown label "${label}"`);
+    }
+  });
+
+  candidate.edges.forEach((edge: any, i: number) => {
+    const name = `edges[${i}]`;
+    const problems = describeEdgeProblems(edge);
+    for (const problem of problems) errors.push(`${name}: ${problem}`);
+    if (problems.length > 0) return;
+    if (!nodeIds.has(edge.source)) errors.push(`${name}: source ${edge.source} is not the id of any node`);
+    if (!nodeIds.has(edge.target)) errors.push(`${name}: target ${edge.target} is not the id of any node`);
+  });
+
+  if (candidate.modules !== undefined && !Array.isArray(candidate.modules)) {
+    errors.push(`"modules" must be an array, got ${describeType(candidate.modules)}`);
+  }
+  (Array.isArray(candidate.modules) ? candidate.modules : []).forEach((module: any, i: number) => {
+    const name = `modules[${i}]`;
+    const problems = describeModuleProblems(module);
+    for (const problem of problems) errors.push(`${name}: ${problem}`);
+    if (problems.length > 0) return;
+    for (const id of module.nodeIds) {
+      if (!nodeIds.has(id)) errors.push(`${name}: ${id} in "nodeIds" is not the id of any node`);
+    }
+  });
+
+  if (candidate.scenarios !== undefined && !Array.isArray(candidate.scenarios)) {
+    errors.push(`"scenarios" must be an array, got ${describeType(candidate.scenarios)}`);
+  }
+  (Array.isArray(candidate.scenarios) ? candidate.scenarios : []).forEach((scenario: any, i: number) => {
+    const name = `scenarios[${i}]`;
+    const problems = describeScenarioProblems(scenario);
+    for (const problem of problems) errors.push(`${name}: ${problem}`);
+    if (problems.length > 0) return;
+    for (const override of scenario.overrides) {
+      if (!nodeIds.has(override.nodeId)) errors.push(`${name}: override of ${override.nodeId}, which is not the id of any node`);
+    }
+  });
+
+  if (errors.length > 0) return { graph: undefined, errors };
+  return { graph: candidate as Graph, errors: [] };
+}
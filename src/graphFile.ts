@@ -0,0 +1,215 @@
+import { evaluateExpression, parseExpression } from './expression';
+import { getNodeById, getNodeByLabel, updateEdges, validateGraph, type Graph } from './graph';
+
+/**********************************************
+ * File format
+ *
+ * What "Export graph" writes and "Import graph" reads:
+ * an envelope that says what it contains, so that files stay readable when the model changes.
+ *
+ * Schema versions:
+ *   1: a bare `{ nodes, edges }` graph, as exported before there was an envelope
+ *   2: `GraphFile` (current)
+ *
+ * When the model changes, bump `currentSchemaVersion` and add a migration from the previous version.
+ **********************************************/
+
+export const graphFileFormat = 'econodes-graph';
+export const currentSchemaVersion = 2;
+
+/** Which of the two apps a graph belongs to: this one (value expressions) or the incrementor (signed edges) */
+export type AppKind = 'expression' | 'incrementor';
+
+export interface GraphMetadata {
+  title: string;
+  author: string;
+  description: string;
+  /** ISO timestamp of the export */
+  savedAt?: string;
+}
+
+/** The incrementor's model, as far as we need to convert it */
+export interface IncrementorGraph {
+  nodes: { id: number; x: number; y: number; label: string; value: number }[];
+  edges: { id: number; source: number; target: number; type: 'increment' | 'decrement'; weight?: number; delay?: number; response?: unknown }[];
+}
+
+export interface GraphFile {
+  format: typeof graphFileFormat;
+  schemaVersion: number;
+  app: AppKind;
+  metadata: GraphMetadata;
+  graph: unknown;
+}
+
+export function emptyMetadata(): GraphMetadata {
+  return { title: '', author: '', description: '' };
+}
+
+export function toGraphFile(graph: Graph | IncrementorGraph, metadata: GraphMetadata, app: AppKind = 'expression'): GraphFile {
+  return {
+    format: graphFileFormat,
+    schemaVersion: currentSchemaVersion,
+    app,
+    metadata: { ...metadata, savedAt: new Date().toISOString() },
+    graph,
+  };
+}
+
+/**********************************************
+ * Migrations
+ **********************************************/
+
+type Migration = (file: any) => GraphFile;
+
+/**
+ * migrations[v] upgrades a file of schema version v to version v + 1.
+ */
+const migrations: Record<number, Migration> = {
+  1: (bareGraph: any) => ({
+    format: graphFileFormat,
+    schemaVersion: 2,
+    app: guessAppKind(bareGraph),
+    metadata: emptyMetadata(),
+    graph: bareGraph,
+  }),
+};
+
+function guessAppKind(bareGraph: any): AppKind {
+  const hasSignedEdges = Array.isArray(bareGraph?.edges) && bareGraph.edges.some((e: any) => e?.type === 'increment' || e?.type === 'decrement');
+  const hasExpressions = Array.isArray(bareGraph?.nodes) && bareGraph.nodes.some((n: any) => typeof n?.valueExpression === 'string');
+  return hasSignedEdges && !hasExpressions ? 'incrementor' : 'expression';
+}
+
+function schemaVersionOf(json: any): number {
+  if (json?.format === graphFileFormat) return json.schemaVersion;
+  return 1;
+}
+
+export function migrate(json: unknown): { file: GraphFile; errors: [] } | { file: undefined; errors: string[] } {
+  let version = schemaVersionOf(json);
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { file: undefined, errors: [`"schemaVersion" must be a positive integer, got ${JSON.stringify(version)}`] };
+  }
+  if (version > currentSchemaVersion) {
+    return { file: undefined, errors: [`file has schema version ${version}, but this app only knows up to version ${currentSchemaVersion}. Please update EcoNodes.`] };
+  }
+
+  let file: any = json;
+  while (version < currentSchemaVersion) {
+    file = migrations[version](file);
+    version += 1;
+  }
+
+  if (file.app !== 'expression' && file.app !== 'incrementor') {
+    return { file: undefined, errors: [`"app" must be "expression" or "incrementor", got ${JSON.stringify(file.app)}`] };
+  }
+  return { file: { ...file, metadata: { ...emptyMetadata(), ...file.metadata } }, errors: [] };
+}
+
+/**
+ * Reads anything "Export graph" ever wrote - from this app or from the incrementor - and returns a valid expression graph.
+ */
+export function readGraphFile(json: unknown):
+  | { graph: Graph; metadata: GraphMetadata; warnings: string[]; errors: [] }
+  | { graph: undefined; errors: string[] } {
+  const { file, errors: migrationErrors } = migrate(json);
+  if (!file) return { graph: undefined, errors: migrationErrors };
+
+  let candidate = file.graph;
+  let warnings: string[] = [];
+  if (file.app === 'incrementor') {
+    const incrementorErrors = validateIncrementorGraph(candidate);
+    if (incrementorErrors.length > 0) return { graph: undefined, errors: incrementorErrors };
+    const incrementorGraph = candidate as IncrementorGraph;
+    candidate = incrementorToExpressionGraph(incrementorGraph);
+    warnings = ['converted from an incrementor graph: each signed edge became a "+" or "-" reference in its target\'s value expression'];
+    if (incrementorGraph.edges.some((e) => e.delay || e.response)) {
+      warnings.push('edge delays and saturation/threshold responses have no equivalent in value expressions and were dropped');
+    }
+  }
+
+  const { graph, errors } = validateGraph(candidate);
+  if (!graph) return { graph: undefined, errors };
+  return { graph, metadata: file.metadata, warnings, errors: [] };
+}
+
+/**********************************************
+ * Conversion between the two apps
+ **********************************************/
+
+function validateIncrementorGraph(json: any): string[] {
+  if (!Array.isArray(json?.nodes) || !Array.isArray(json?.edges)) return ['graph must have a "nodes" and an "edges" array'];
+  const errors: string[] = [];
+  const nodeIds = new Set(json.nodes.map((node: any) => node?.id));
+  json.edges.forEach((edge: any, i: number) => {
+    if (!nodeIds.has(edge?.source) || !nodeIds.has(edge?.target)) errors.push(`edges[${i}]: "source" and "target" must be ids of nodes`);
+    if (edge?.type !== 'increment' && edge?.type !== 'decrement') errors.push(`edges[${i}]: "type" must be "increment" or "decrement", got ${JSON.stringify(edge?.type)}`);
+    if (edge?.weight !== undefined && !Number.isFinite(edge.weight)) errors.push(`edges[${i}]: "weight" must be a number, got ${JSON.stringify(edge.weight)}`);
+  });
+  json.nodes.forEach((node: any, i: number) => {
+    if (typeof node?.value !== 'number' || typeof node?.label !== 'string') errors.push(`nodes[${i}]: needs a numeric "value" and a string "label"`);
+  });
+  return errors;
+}
+
+/**
+ * An incrementor edge says: when the source changes by d, the target changes by +d or -d, times the edge's weight.
+ * The linear expression `base + "Source A" - 0.5 * "Source B"` does the same.
+ * Delays and saturation/threshold responses have no equivalent and are dropped.
+ * `base` is chosen so that every node keeps its current value.
+ */
+function incrementorToExpressionGraph(incrementorGraph: IncrementorGraph): Graph {
+  const nodes = incrementorGraph.nodes.map((node) => {
+    const incoming = incrementorGraph.edges.filter((e) => e.target === node.id);
+    if (incoming.length === 0) return { id: node.id, x: node.x, y: node.y, label: node.label, valueExpression: `${node.value}`, value: node.value };
+
+    let base = node.value;
+    let references = '';
+    for (const edge of incoming) {
+      const source = incrementorGraph.nodes.find((n) => n.id === edge.source)!;
+      const sign = edge.type === 'increment' ? 1 : -1;
+      const weight = edge.weight ?? 1;
+      base -= sign * weight * source.value;
+      references += ` ${sign > 0 ? '+' : '-'} ${weight === 1 ? '' : `${weight} * `}"${source.label}"`;
+    }
+    return { id: node.id, x: node.x, y: node.y, label: node.label, valueExpression: `${base}${references}`, value: node.value };
+  });
+
+  const graph: Graph = { nodes, edges: [] };
+  updateEdges(graph);
+  return graph;
+}
+
+/**
+ * Each dependency becomes an increment edge if raising the source raises the target, a decrement edge if it lowers it.
+ * That's only possible where the direction is clear at the current values;
+ * dependencies without a (finite, non-zero) effect are dropped with a warning.
+ */
+export function expressionToIncrementorGraph(graph: Graph): { graph: IncrementorGraph; warnings: string[] } {
+  const warnings: string[] = [];
+  const nodes = graph.nodes.map(({ id, x, y, label, value }) => ({ id, x, y, label, value }));
+  const edges: IncrementorGraph['edges'] = [];
+
+  const pairs = new Set(graph.edges.map((e) => `${e.source}->${e.target}`));
+  for (const pair of pairs) {
+    const [sourceId, targetId] = pair.split('->').map(Number);
+    const source = getNodeById(graph, sourceId);
+    const target = getNodeById(graph, targetId);
+
+    const expression = parseExpression(target.valueExpression);
+    const valueWith = (sourceValue: number) => evaluateExpression(expression, {
+      lookup: (label) => (label === source.label ? sourceValue : getNodeByLabel(graph, label).value),
+    });
+    const step = Math.max(Math.abs(source.value) * 1e-6, 1e-6);
+    const effect = valueWith(source.value + step) - valueWith(source.value);
+
+    if (!Number.isFinite(effect) || effect === 0) {
+      warnings.push(`dropped "${source.label}" -> "${target.label}": no clear direction of effect at the current values`);
+      continue;
+    }
+    edges.push({ id: edges.length + 1, source: sourceId, target: targetId, type: effect > 0 ? 'increment' : 'decrement' });
+  }
+
+  return { graph: { nodes, edges }, warnings };
+}
@@ -1,41 +1,69 @@
 import { select, type Selection } from 'd3-selection';
 import { scaleLinear } from 'd3-scale';
 import { drag } from 'd3-drag';
+import { builtinFunctions } from './functions';
+import { ExpressionError, formatExpressionError, parseExpression } from './expression';
+import {
+  checkLabel,
+  CycleError,
+  describeDistributionProblems,
+  distributionParameters,
+  extractLabels,
+  findCycles,
+  getChildren,
+  getInputNodes,
+  getNodeById,
+  hasFailed,
+  isCyclicEdge,
+  LabelError,
+  MissingReferenceError,
+  recalculate,
+  recalculateNode,
+  recalculationOrder,
+  renameLabel,
+  renameLabels,
+  solveGraph,
+  topologicalOrder,
+  uniqueLabel,
+  updateEdges,
+  type Distribution,
+  type Edge,
+  type Graph,
+  type Module,
+  type Node,
+  type Scenario,
+  type SolveResult,
+  type ValueChange,
+} from './graph';
+import { drawHistogram, drawLineChart, drawSparkline, drawTornadoChart } from './charts';
+import { emptyMetadata, expressionToIncrementorGraph, migrate, readGraphFile, toGraphFile, type GraphFile, type GraphMetadata } from './graphFile';
+import { UndoHistory } from './history';
+import { computeLayout, type LayoutAlgorithm, type Positions } from './layout';
+import { createModule, getModuleOf, instantiateTemplate, isHidden, modulePorts, removeFromModules, toTemplate, ungroupModule, visibleGraph, type ModuleTemplate } from './modules';
+import {
+  createModelId,
+  deleteModel,
+  deleteTemplate,
+  getCurrentModelId,
+  listModels,
+  listTemplates,
+  loadModel,
+  saveModel,
+  saveTemplate,
+  setCurrentModelId,
+  type ModelSummary,
+} from './storage';
+import { applyStep, currentValues, simulateStep, type StepValues } from './simulation';
+import { goalSeek, optimize, type BoundedInput } from './goalseek';
+import { ignoredDistributions, maxSamples, type MonteCarloMessage, type MonteCarloRequest, type MonteCarloResult } from './montecarlo';
+import { analyseSensitivity, type SensitivityResult } from './sensitivity';
+import { parseUnit } from './units';
+import { compareValues, createScenario, deleteScenario, getScenario, removeFromScenarios, scenarioValues, setOverride, type ValueDelta } from './scenarios';
 
 /**********************************************
  * Model data and helpers
  **********************************************/
 
-/**
- * We deliberately keep value and valueExpression side by side
- * - even though one _should_ be derived from the other.
- * Because we want to slowly iterate through the graph,
- * re-evaluating valueExpression on every step, to _visually_ update value.
- * It is by design that these two may be inconsistent for a while.
- *
- * Edges, too, can be derived from value-expressions. Still we maintain them explicitly.
- * Here, however, this is more for performance reasons.
- */
-
-interface Node {
-  id: number;
-  x: number; // between 0 and 1
-  y: number; // between 0 and 1
-  label: string;
-  valueExpression: string;
-  value: number;
-}
-
-interface Edge {
-  source: Node['id'];
-  target: Node['id'];
-}
-
-interface Graph {
-  nodes: Node[];
-  edges: Edge[];
-}
-
 const data: Graph = {
   nodes: [
     { id: 1, x: 0.5, y: 0.25, label: 'A', valueExpression: '1', value: 1 },
@@ -51,127 +79,121 @@ const data: Graph = {
 function updateNode(updatedNode: Node, graph: Graph) {
   let originalNode = graph.nodes.find((n) => n.id === updatedNode.id)!;
 
+  // fail before touching the graph if the new label is taken or the new expression or unit doesn't parse
+  checkLabel(graph, updatedNode.label, updatedNode.id);
+  parseExpression(updatedNode.valueExpression);
+  parseUnit(updatedNode.unit);
+
+  const oldLabel = originalNode.label;
+  const oldUnit = originalNode.unit;
+
   // copy over primitive values
   originalNode = Object.assign(originalNode, updatedNode);
 
-  // if label change, update all nodes value-expressions to match
-  for (const node of graph.nodes) {
-    if (node.valueExpression.includes(originalNode.label)) {
-      node.valueExpression.replace(originalNode.label, updatedNode.label);
+  // if label change, update all references to it
+  if (oldLabel !== updatedNode.label) {
+    for (const node of graph.nodes) {
+      node.valueExpression = renameLabel(node.valueExpression, oldLabel, updatedNode.label);
     }
   }
 
   // if value change, check that references exist and update edges
   updateEdges(graph);
 
-  // re-evaluate value
-  originalNode.value = evaluateValueString(updatedNode.valueExpression, graph, false);
-}
+  // re-evaluate value; a broken reference becomes the node's status
+  recalculateNode(graph, originalNode.id);
 
-function updateEdges(graph: Graph) {
-  graph.edges = [];
-  for (const targetNode of graph.nodes) {
-    const labels = extractLabels(targetNode.valueExpression);
-    for (const label of labels) {
-      const sourceNode = graph.nodes.find((n) => n.label === label);
-      if (sourceNode) graph.edges.push({ source: sourceNode.id, target: targetNode.id });
-    }
+  // nodes reading this one now convert from a different unit, or no longer fit
+  if (oldUnit !== originalNode.unit) {
+    for (const child of getChildren(originalNode, graph)) recalculateNode(graph, child.id);
   }
 }
 
-function extractLabels(valueString: string): string[] {
-  const labels = [];
-  let currentLabel: string | undefined = undefined;
-  for (const currentChar of valueString) {
-    if (currentChar === '"') {
-      if (currentLabel === undefined) {
-        currentLabel = '';
-      } else {
-        labels.push(currentLabel);
-        currentLabel = undefined;
-      }
-    } else {
-      if (currentLabel !== undefined) currentLabel += currentChar;
-    }
+/**
+ * Appends a reference to `source` to the target's expression, e.g. `2 * "A"` becomes `2 * "A" + "B"`.
+ */
+function connectNodes(source: Node, target: Node, graph: Graph) {
+  if (extractLabels(target.valueExpression).includes(source.label)) {
+    select('#logContainer').append('span').text(`"${target.label}" already references "${source.label}".`);
+    return;
   }
-  return labels;
+  const expression = parseExpression(target.valueExpression);
+  // comparisons bind looser than "+", so `"A" > 1` must not become `"A" > 1 + "B"`
+  const isComparison = expression.type === 'binary' && !['+', '-', '*', '/', '^'].includes(expression.operator);
+  const valueExpression = isComparison ? `(${target.valueExpression}) + "${source.label}"` : `${target.valueExpression} + "${source.label}"`;
+  updateNode({ ...target, valueExpression }, graph);
 }
 
-function substitute(valueString: string, matches: { [key: string]: number }) {
-  const parts = valueString.split('"').filter((p) => p !== '');
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i];
-    if (part in matches) {
-      parts[i] = matches[part] + '';
-    }
-  }
-  const substituted = parts.join('');
-  return substituted;
-}
-
-function evaluateValueString(valueString: string, graph: Graph, recursive = true): number {
-  const labels = extractLabels(valueString);
-  const matchedValues: { [key: string]: number } = {};
-  for (const label of labels) {
-    const node = graph.nodes.find((n) => n.label === label)!
-    if (recursive) {
-      const valueString = node.valueExpression;
-      matchedValues[label] = evaluateValueString(valueString, graph, recursive);
-    } else {
-      matchedValues[label] = node.value;
-    }
-  }
-  const subsitutedString = substitute(valueString, matchedValues);
-  const evaluated: number = eval(subsitutedString);
-  return evaluated;
+/**
+ * Writes new values into inputs' expressions, e.g. the result of a goal seek, and recalculates everything downstream.
+ */
+function setInputValues(values: Map<Node['id'], number>) {
+  for (const [id, value] of values) updateNode({ ...getNodeById(appState.data, id), valueExpression: `${value}` }, appState.data);
+  recalculate(appState.data, recalculationOrder(appState.data, Array.from(values.keys())).order);
 }
 
-function getNodeById(graph: Graph, id: number) {
-  return graph.nodes.find((n) => n.id === id)!;
+function deleteNodes(ids: Node['id'][], graph: Graph) {
+  const deletedLabels = graph.nodes.filter((n) => ids.includes(n.id)).map((n) => n.label);
+  graph.nodes = graph.nodes.filter((n) => !ids.includes(n.id));
+  graph.edges = graph.edges.filter((e) => !ids.includes(e.source) && !ids.includes(e.target));
+  removeFromModules(graph, ids);
+  removeFromScenarios(graph, ids);
+  // nodes that referenced one of them now fail with a missing reference
+  for (const node of graph.nodes) {
+    if (extractLabels(node.valueExpression).some((label) => deletedLabels.includes(label))) recalculateNode(graph, node.id);
+  }
 }
 
-function getChildren(node: Node, graph: Graph) {
-  const children = graph.edges
-      .filter(e => e.source === node.id)
-      .map(e => e.target)
-      .map(targetId => getNodeById(graph, targetId));
-  return children;
+/**
+ * Adds copies of `nodes` with new ids and labels, shifted a little so that they don't hide the originals.
+ * References among the copied nodes are rewritten to point to the copies; references to other nodes are kept.
+ * Returns the ids of the copies.
+ */
+function pasteNodes(nodes: Node[], graph: Graph): Node['id'][] {
+  let nextId = graph.nodes.length > 0 ? Math.max(...graph.nodes.map((n) => n.id)) + 1 : 1;
+  const renames = new Map<string, string>();
+  const copies: Node[] = [];
+  for (const node of nodes) {
+    const copy = { ...structuredClone(node), id: nextId++, label: uniqueLabel(graph, node.label), x: Math.min(node.x + 0.05, 1), y: Math.min(node.y + 0.05, 1) };
+    renames.set(node.label, copy.label);
+    graph.nodes.push(copy);
+    copies.push(copy);
+  }
+  for (const copy of copies) copy.valueExpression = renameLabels(copy.valueExpression, renames);
+
+  const ids = copies.map((c) => c.id);
+  updateEdges(graph);
+  recalculate(graph, recalculationOrder(graph, ids).order);
+  return ids;
 }
 
-function unique<T, I>(lst: T[], idFunc: (t: T) => I) {
-  const seen = new Set<I>();
-  const result: T[] = [];
-  for (const item of lst) {
-    const id = idFunc(item);
-    if (!seen.has(id)) {
-      seen.add(id);
-      result.push(item);
+function readJsonFile(file: File, onJson: (json: unknown) => void) {
+  file.text().then((text) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      logImportErrors([`${file.name} is not valid JSON: ${(error as Error).message}`]);
+      return;
     }
-  }
-  return result;
+    onJson(json);
+  });
 }
 
-function getNthGenChildren(node: Node, depth: number, graph: Graph): Node[] {
-  if (depth === 0) return [node];
-  if (depth === 1) return getChildren(node, graph);
-
-  const descendants: Node[] = [];
-  const directChildren = getChildren(node, graph);
-  for (const child of directChildren) {
-    descendants.push(...getNthGenChildren(child, depth - 1, graph));
-  }
-
-  return unique(descendants, (d => d.id));
+function logImportErrors(errors: string[]) {
+  const logContainer = select('#logContainer');
+  logContainer.append('span').style('color', 'red').text(`Import failed (${errors.length} problems):`);
+  for (const error of errors) logContainer.append('span').style('color', 'red').text(`- ${error}`);
 }
 
-function downloadJson(graph: Graph) {
-  const dataStr = JSON.stringify(graph, null, 2);
+function downloadJson(file: GraphFile) {
+  const dataStr = JSON.stringify(file, null, 2);
   const blob = new Blob([dataStr], { type: "application/json" });
   const url = URL.createObjectURL(blob);
 
   const a = document.createElement("a");
   a.href = url;
-  a.download = "graph.json";
+  a.download = `${file.metadata.title || 'graph'}${file.app === 'incrementor' ? '.incrementor' : ''}.json`;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
@@ -186,96 +208,794 @@ function downloadJson(graph: Graph) {
 
 type Event =
   | { type: 'init' }
-  | { type: 'selectNode'; node?: Node }
-  | { type: 'moveNode'; node: Node }
+  | { type: 'selectNode'; node?: Node; additive?: boolean }
+  | { type: 'selectNodes'; ids: Node['id'][]; additive: boolean }
+  | { type: 'deleteSelection' }
+  | { type: 'copySelection' }
+  | { type: 'pasteClipboard' }
+  | { type: 'moveNode'; node: Node; dragId?: number }
   | { type: 'updateNode'; node: Node }
+  | { type: 'connectNodes'; source: Node; target: Node }
+  | { type: 'layoutGraph'; algorithm: LayoutAlgorithm }
+  | { type: 'layoutFrame' }
+  | { type: 'createModule'; name: string }
+  | { type: 'toggleModule'; moduleId: Module['id'] }
+  | { type: 'ungroupModule'; moduleId: Module['id'] }
+  | { type: 'saveModuleTemplate'; moduleId: Module['id'] }
+  | { type: 'instantiateTemplate'; name: string; namespace: string }
+  | { type: 'deleteTemplate'; name: string }
+  | { type: 'createScenario'; name: string }
+  | { type: 'deleteScenario'; scenarioId: Scenario['id'] }
+  | { type: 'setOverride'; scenarioId: Scenario['id']; nodeId: Node['id']; value?: number }
+  | { type: 'selectScenario'; scenarioId?: Scenario['id'] }
+  | { type: 'compareScenario'; scenarioId?: Scenario['id'] }
+  | { type: 'analyseSensitivity'; node: Node; percent: number }
+  | { type: 'runMonteCarlo'; samples: number; seed: number }
+  | { type: 'monteCarloMessage'; message: MonteCarloMessage }
+  | { type: 'cancelMonteCarlo' }
+  | { type: 'showHistogram'; nodeId: Node['id'] }
+  | { type: 'goalSeek'; targetId: Node['id']; targetValue: number; inputId: Node['id'] }
+  | { type: 'optimize'; targetId: Node['id']; direction: 'minimize' | 'maximize'; inputs: BoundedInput[] }
   | { type: 'deleteNode'; node: Node }
   | { type: 'createNode'; node: Node }
   | { type: 'evaluateDownstream'; node: Node }
-  | { type: "exportGraph"; };
+  | { type: 'startStepThrough'; node: Node }
+  | { type: 'stepThrough' }
+  | { type: 'solveGraph'; tolerance: number; maxIterations: number }
+  | { type: 'simulationStep' }
+  | { type: 'simulationPlay'; maxSteps: number }
+  | { type: 'simulationPause' }
+  | { type: 'simulationReset' }
+  | { type: 'simulationShowStep'; step: number }
+  | { type: 'toggleChartNode'; nodeId: Node['id'] }
+  | { type: "exportGraph"; }
+  | { type: 'exportForIncrementor' }
+  | { type: 'updateMetadata'; metadata: GraphMetadata }
+  | { type: 'newModel' }
+  | { type: 'openModel'; id: string }
+  | { type: 'duplicateModel'; id: string }
+  | { type: 'renameModel'; id: string; name: string }
+  | { type: 'deleteModel'; id: string }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jumpToHistory'; index: number }
+  | { type: 'importGraph'; json: unknown };
 
 interface AppState {
   data: Graph;
+  /** the node shown in the node form: the one selected last */
   selected: Node | undefined;
-  evalDepth: number | undefined;
+  /** every selected node, including `selected`; see `setSelection` */
+  selectedIds: Node['id'][];
+  /** copied nodes, see `pasteNodes` */
+  clipboard: Node[];
+  /** recalculation order being animated node by node, see `startStepThrough` */
+  stepThrough?: { order: Node['id'][]; position: number };
+  /** nodes moving from `from` to `to`, see `layoutGraph` */
+  layout?: { from: Positions; to: Positions; frame: number };
+  expressionError?: string;
+  /** groups of nodes that depend on each other, see `findCycles` */
+  cycles: Node['id'][][];
+  solveResult?: SolveResult;
+  /** the scenario whose values are shown; `undefined` for the baseline. See ./scenarios.ts */
+  activeScenarioId?: Scenario['id'];
+  /** what the active scenario is compared with; `undefined` for the baseline */
+  compareScenarioId?: Scenario['id'];
+  /** from the compared to the active scenario, if they differ; colors the nodes */
+  comparison?: ValueDelta[];
+  /** the last sensitivity analysis, drawn as a tornado chart; not updated on edits */
+  sensitivity?: SensitivityResult;
+  /** outcome of the last goal seek or optimization, see ./goalseek.ts */
+  goalSeekMessage?: string;
+  /** see ./montecarlo.ts; the run itself happens in a worker */
+  monteCarlo: {
+    running: boolean;
+    done: number;
+    samples: number;
+    result?: MonteCarloResult;
+    /** the node whose histogram is shown */
+    histogramNodeId?: Node['id'];
+  };
+  simulation: {
+    /** history[t] holds every node's value at step t; history[0] is the state before the first step */
+    history: StepValues[];
+    /** the step currently written into the graph's values and drawn */
+    shownStep: number;
+    maxSteps: number;
+    playing: boolean;
+  };
+  /** a snapshot of all values after every event that changed one, see `recordValueHistory` */
+  valueHistory: StepValues[];
+  /** nodes plotted in the chart panel */
+  chartNodeIds: Node['id'][];
+  metadata: GraphMetadata;
+  /** id under which the graph is autosaved, see ./storage.ts */
+  modelId: string;
 }
 
 function isSelected(node: Node) {
-  if (!appState.selected) return false;
-  return node.id === appState.selected.id;
+  return appState.selectedIds.includes(node.id);
+}
+
+function setSelection(ids: Node['id'][]) {
+  appState.selectedIds = ids.filter((id) => appState.data.nodes.some((n) => n.id === id));
+  const lastId = appState.selectedIds[appState.selectedIds.length - 1];
+  appState.selected = appState.data.nodes.find((n) => n.id === lastId);
+}
+
+function isBeingStepped(node: Node) {
+  if (!appState.stepThrough) return false;
+  return appState.stepThrough.order[appState.stepThrough.position - 1] === node.id;
+}
+
+function isInCycle(node: Node) {
+  return appState.cycles.some((cycle) => cycle.includes(node.id));
+}
+
+/** nodes that went up are green, those that went down red; ±50% and more get the full color */
+const movementColor = scaleLinear<string>([-50, 0, 50], ['crimson', 'grey', 'seagreen']).clamp(true);
+
+function nodeFill(node: Node) {
+  if (node.status?.kind === 'stale') return 'lightgrey';
+  if (hasFailed(node)) return 'salmon';
+  const delta = appState.comparison?.find((d) => d.nodeId === node.id);
+  if (!delta || delta.absolute === 0) return 'grey';
+  return movementColor(delta.percent ?? Math.sign(delta.absolute) * 50);
+}
+
+function formatNumber(value: number) {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(3);
+}
+
+/**
+ * Writes the active scenario's values into the graph; the baseline's if there is none.
+ */
+function showActiveScenario() {
+  const scenario = getScenario(appState.data, appState.activeScenarioId);
+  if (!scenario) appState.activeScenarioId = undefined;
+  applyStep(appState.data, scenarioValues(appState.data, scenario));
+}
+
+/** everything scenario values depend on; positions, selection and statuses don't, so e.g. a drag reuses the last comparison */
+function comparisonKey(graph: Graph) {
+  return JSON.stringify([
+    graph.nodes.map((n) => [n.id, n.label, n.valueExpression, n.unit, n.value]),
+    graph.edges,
+    graph.scenarios,
+    appState.activeScenarioId,
+    appState.compareScenarioId,
+  ]);
+}
+
+let comparisonCache: { key: string; comparison: ValueDelta[] | undefined } | undefined;
+
+function compareScenarios(): ValueDelta[] | undefined {
+  const graph = appState.data;
+  const active = getScenario(graph, appState.activeScenarioId);
+  const compared = getScenario(graph, appState.compareScenarioId);
+  if (!compared) appState.compareScenarioId = undefined;
+  if (active === compared) return undefined;
+  const key = comparisonKey(graph);
+  if (comparisonCache?.key !== key) {
+    comparisonCache = { key, comparison: compareValues(graph, scenarioValues(graph, compared), scenarioValues(graph, active)) };
+  }
+  return comparisonCache.comparison;
 }
 
 const appState: AppState = {
   data,
   selected: undefined,
-  evalDepth: undefined
+  selectedIds: [],
+  clipboard: [],
+  cycles: findCycles(data),
+  simulation: { history: [], shownStep: 0, maxSteps: 0, playing: false },
+  monteCarlo: { running: false, done: 0, samples: 0 },
+  valueHistory: [currentValues(data)],
+  chartNodeIds: [],
+  metadata: emptyMetadata(),
+  modelId: createModelId(),
 };
 
+const maxValueHistory = 500;
+
+function recordValueHistory() {
+  const values = currentValues(appState.data);
+  const last = appState.valueHistory[appState.valueHistory.length - 1];
+  const changed = appState.data.nodes.some((n) => last?.[n.id] !== values[n.id]);
+  if (!changed) return;
+  appState.valueHistory.push(values);
+  if (appState.valueHistory.length > maxValueHistory) appState.valueHistory.shift();
+}
+
+function nodeHistory(nodeId: Node['id']) {
+  return appState.valueHistory.map((values) => values[nodeId]);
+}
+
+const stepThroughInterval = 600;
+let stepThroughTimer: number | undefined;
+const simulationInterval = 300;
+let simulationTimer: number | undefined;
+const layoutFrames = 20;
+const layoutFrameInterval = 25;
+let layoutTimer: number | undefined;
+/** counts layout runs, so that all frames of one run become one undo entry */
+let layoutRun = 0;
+
+function stopLayout() {
+  clearInterval(layoutTimer);
+  appState.layout = undefined;
+}
+
+let monteCarloWorker: Worker | undefined;
+
+function stopMonteCarlo() {
+  monteCarloWorker?.terminate();
+  monteCarloWorker = undefined;
+  appState.monteCarlo.running = false;
+}
+
+function pauseSimulation() {
+  clearInterval(simulationTimer);
+  appState.simulation.playing = false;
+}
+
+function logChange(change: ValueChange) {
+  const node = getNodeById(appState.data, change.nodeId);
+  if (hasFailed(node)) {
+    select('#logContainer').append('span').style('color', 'red').text(`${node.label}: ${node.status!.message}`);
+    return;
+  }
+  const changeLine = `${node.label}: ${change.oldValue} -> ${change.newValue}`;
+  select('#logContainer').append('span').property('innerHTML', changeLine);
+}
+
+/**
+ * Swaps in a different graph (imported, opened from storage or new) and resets everything that belonged to the old one.
+ */
+function replaceGraph(modelId: string, graph: Graph, metadata: GraphMetadata) {
+  undoHistory.reset('Open model', graph);
+  pauseSimulation();
+  stopLayout();
+  clearInterval(stepThroughTimer);
+  updateEdges(graph);
+  recalculate(graph, topologicalOrder(graph).order);
+  appState.modelId = modelId;
+  appState.data = graph;
+  appState.metadata = metadata;
+  setSelection([]);
+  appState.stepThrough = undefined;
+  appState.solveResult = undefined;
+  appState.activeScenarioId = undefined;
+  appState.compareScenarioId = undefined;
+  appState.sensitivity = undefined;
+  appState.goalSeekMessage = undefined;
+  stopMonteCarlo();
+  appState.monteCarlo = { running: false, done: 0, samples: 0 };
+  appState.simulation = { history: [], shownStep: 0, maxSteps: 0, playing: false };
+  appState.valueHistory = [currentValues(graph)];
+  appState.chartNodeIds = [];
+}
+
+function openStoredModel(id: string) {
+  const stored = readGraphFile(loadModel(id));
+  if (!stored.graph) {
+    logImportErrors(stored.errors);
+    return;
+  }
+  replaceGraph(id, stored.graph, stored.metadata);
+}
+
+const undoHistory = new UndoHistory<Graph>(100);
+undoHistory.reset('Start', appState.data);
+
+/**
+ * Label for the history list; `undefined` for events that can't be undone.
+ */
+function describeUndoable(event: Event): string | undefined {
+  switch (event.type) {
+    case 'createNode':
+      return `Create "${event.node.label}"`;
+    case 'deleteNode':
+      return `Delete "${event.node.label}"`;
+    case 'deleteSelection':
+      return `Delete ${appState.selectedIds.length} node(s)`;
+    case 'pasteClipboard':
+      return `Paste ${appState.clipboard.length} node(s)`;
+    case 'moveNode':
+      return `Move "${event.node.label}"`;
+    case 'updateNode':
+      return `Edit "${event.node.label}"`;
+    case 'connectNodes':
+      return `Connect "${event.source.label}" to "${event.target.label}"`;
+    case 'layoutGraph':
+    case 'layoutFrame':
+      return 'Auto layout';
+    case 'createModule':
+      return `Group "${event.name}"`;
+    case 'toggleModule':
+      return 'Collapse/expand module';
+    case 'ungroupModule':
+      return 'Ungroup module';
+    case 'instantiateTemplate':
+      return `Insert "${event.name}" as "${event.namespace}"`;
+    case 'createScenario':
+      return `Create scenario "${event.name}"`;
+    case 'deleteScenario':
+      return 'Delete scenario';
+    case 'setOverride':
+      return 'Edit scenario';
+    case 'goalSeek':
+      return 'Goal seek';
+    case 'optimize':
+      return 'Optimize';
+  }
+  return undefined;
+}
+
+function restoreSnapshot(graph: Graph | undefined) {
+  if (!graph) return;
+  clearInterval(stepThroughTimer);
+  stopLayout();
+  appState.data = graph;
+  setSelection(appState.selectedIds);
+  appState.stepThrough = undefined;
+}
+
+/**
+ * A tick of an animation that is still running. Ticks come every few ms and only the last one matters,
+ * so the others are neither autosaved nor recorded for undo.
+ */
+function isAnimationFrame(event: Event) {
+  return (event.type === 'layoutFrame' && appState.layout !== undefined) || (event.type === 'stepThrough' && appState.stepThrough !== undefined);
+}
+
+let autosaveFailed = false;
+
+function autosave() {
+  try {
+    saveModel(appState.modelId, toGraphFile(appState.data, appState.metadata));
+    setCurrentModelId(appState.modelId);
+    autosaveFailed = false;
+  } catch (error) {
+    // storage full or disabled; say so once, not on every event
+    if (!autosaveFailed) select('#logContainer').append('span').style('color', 'red').text(`Autosave failed: ${(error as Error).message}`);
+    autosaveFailed = true;
+  }
+}
+
 function updateApp(event: Event) {
   console.log(event);
 
   // step 1: change state
-  switch (event.type) {
-    case 'selectNode':
-      appState.selected = event.node;
-      appState.evalDepth = undefined;
-      break;
+  appState.expressionError = undefined;
+  try {
+    // describes the state before the event, e.g. how many nodes a deletion is about to remove
+    const undoLabel = describeUndoable(event);
+    switch (event.type) {
+      case 'selectNode':
+        if (!event.node) setSelection([]);
+        else if (!event.additive) setSelection([event.node.id]);
+        else if (isSelected(event.node)) setSelection(appState.selectedIds.filter((id) => id !== event.node!.id));
+        else setSelection([...appState.selectedIds, event.node.id]);
+        break;
 
-    case 'updateNode':
-      updateNode(event.node, appState.data);
-      break;
+      case 'selectNodes':
+        setSelection(event.additive ? [...appState.selectedIds.filter((id) => !event.ids.includes(id)), ...event.ids] : event.ids);
+        break;
 
-    case 'moveNode':
-      for (let i = 0; i < appState.data.nodes.length; i++) {
-        if (appState.data.nodes[i].id === event.node.id) {
-          appState.data.nodes[i] = event.node;
+      case 'deleteSelection':
+        deleteNodes(appState.selectedIds, appState.data);
+        setSelection([]);
+        break;
+
+      case 'copySelection':
+        appState.clipboard = structuredClone(appState.data.nodes.filter(isSelected));
+        select('#logContainer').append('span').text(`Copied ${appState.clipboard.length} node(s).`);
+        break;
+
+      case 'pasteClipboard':
+        setSelection(pasteNodes(appState.clipboard, appState.data));
+        break;
+
+      case 'updateNode':
+        updateNode(event.node, appState.data);
+        break;
+
+      case 'connectNodes':
+        connectNodes(event.source, event.target, appState.data);
+        break;
+
+      case 'moveNode':
+        for (let i = 0; i < appState.data.nodes.length; i++) {
+          if (appState.data.nodes[i].id === event.node.id) {
+            appState.data.nodes[i] = event.node;
+          }
         }
-      }
-      break;
+        break;
 
-    case 'deleteNode':
-      appState.data.nodes = appState.data.nodes.filter((d) => d.id !== event.node.id);
-      appState.data.edges = appState.data.edges.filter((e) => e.target !== event.node.id);
-      appState.data.edges = appState.data.edges.filter((e) => e.source !== event.node.id);
-      appState.selected = undefined;
-      break;
+      case 'deleteNode':
+        deleteNodes([event.node.id], appState.data);
+        setSelection(appState.selectedIds);
+        break;
 
-    case 'createNode':
-      event.node.value = evaluateValueString(event.node.valueExpression, appState.data, false);
-      appState.data.nodes.push(event.node);
-      appState.selected = event.node;
-      break;
-
-    case 'evaluateDownstream':
-      if (appState.evalDepth === undefined) appState.evalDepth = 0;
-      appState.evalDepth += 1;
-      let childNodes = getNthGenChildren(event.node, appState.evalDepth, appState.data);
-      if (childNodes.length === 0) {
-        // start again at 0
-        appState.evalDepth = 0; 
-        childNodes = [event.node];
-      }
-      for (const childNode of childNodes) {
-        const originalValue = childNode.value;
-        updateNode(childNode, appState.data);
-        const newValue = childNode.value;
-        const changeLine = `${childNode.label}: ${originalValue} -> ${newValue}`;
-        select('#logContainer').append('span').property('innerHTML', changeLine);
-      }
-      break;
+      case 'createNode':
+        checkLabel(appState.data, event.node.label);
+        appState.data.nodes.push(event.node);
+        updateEdges(appState.data);
+        recalculateNode(appState.data, event.node.id);
+        setSelection([event.node.id]);
+        break;
+
+      case 'evaluateDownstream':
+        const { order, cyclic } = recalculationOrder(appState.data, [event.node.id]);
+        recalculate(appState.data, order).forEach(logChange);
+        if (cyclic.length > 0) {
+          select('#logContainer').append('span').text(`${cyclic.length} node(s) in feedback loops not recalculated. Use "Solve".`);
+        }
+        break;
+
+      case 'startStepThrough':
+        appState.stepThrough = { order: recalculationOrder(appState.data, [event.node.id]).order, position: 0 };
+        clearInterval(stepThroughTimer);
+        stepThroughTimer = setInterval(() => updateApp({ type: 'stepThrough' }), stepThroughInterval);
+        break;
+
+      case 'stepThrough':
+        if (!appState.stepThrough) break;
+        if (appState.stepThrough.position >= appState.stepThrough.order.length) {
+          appState.stepThrough = undefined;
+          clearInterval(stepThroughTimer);
+          break;
+        }
+        logChange(recalculateNode(appState.data, appState.stepThrough.order[appState.stepThrough.position]));
+        appState.stepThrough.position += 1;
+        break;
+
+      case 'layoutGraph':
+        layoutRun += 1;
+        appState.layout = {
+          from: new Map(appState.data.nodes.map((n) => [n.id, { x: n.x, y: n.y }])),
+          to: computeLayout(event.algorithm, appState.data.nodes, appState.data.edges),
+          frame: 0,
+        };
+        clearInterval(layoutTimer);
+        layoutTimer = setInterval(() => updateApp({ type: 'layoutFrame' }), layoutFrameInterval);
+        break;
+
+      case 'layoutFrame':
+        if (!appState.layout) break;
+        appState.layout.frame += 1;
+        const progress = appState.layout.frame / layoutFrames;
+        const eased = progress * (2 - progress);
+        for (const node of appState.data.nodes) {
+          const from = appState.layout.from.get(node.id);
+          const to = appState.layout.to.get(node.id);
+          if (!from || !to) continue;
+          node.x = from.x + (to.x - from.x) * eased;
+          node.y = from.y + (to.y - from.y) * eased;
+        }
+        if (appState.layout.frame >= layoutFrames) stopLayout();
+        break;
+
+      case 'createModule':
+        if (event.name.trim() === '') throw new LabelError('Module name must not be empty');
+        if (appState.selectedIds.length === 0) {
+          select('#logContainer').append('span').text('Select the nodes to group first.');
+          break;
+        }
+        createModule(appState.data, event.name, [...appState.selectedIds]);
+        break;
+
+      case 'toggleModule':
+        const toggled = appState.data.modules?.find((m) => m.id === event.moduleId);
+        if (toggled) toggled.collapsed = !toggled.collapsed;
+        // nodes that disappear in a box can't stay selected
+        setSelection(appState.selectedIds.filter((id) => !isHidden(appState.data, id)));
+        break;
+
+      case 'ungroupModule':
+        ungroupModule(appState.data, event.moduleId);
+        break;
+
+      case 'saveModuleTemplate':
+        const saved = appState.data.modules?.find((m) => m.id === event.moduleId);
+        if (!saved) break;
+        try {
+          saveTemplate(toTemplate(appState.data, saved));
+          select('#logContainer').append('span').text(`Saved template "${saved.name}".`);
+        } catch (error) {
+          select('#logContainer').append('span').style('color', 'red').text(`Saving template failed: ${(error as Error).message}`);
+        }
+        break;
+
+      case 'instantiateTemplate':
+        const template = listTemplates().find((t) => t.name === event.name);
+        if (!template) break;
+        if (event.namespace.trim() === '' || event.namespace.includes('"')) throw new LabelError('Module name must not be empty or contain \'"\'');
+        const instance = instantiateTemplate(appState.data, template, event.namespace);
+        recalculate(appState.data, recalculationOrder(appState.data, instance.nodeIds).order);
+        setSelection(instance.nodeIds);
+        break;
+
+      case 'deleteTemplate':
+        deleteTemplate(event.name);
+        break;
+
+      case 'createScenario':
+        appState.activeScenarioId = createScenario(appState.data, event.name || 'Scenario').id;
+        break;
+
+      case 'deleteScenario':
+        deleteScenario(appState.data, event.scenarioId);
+        break;
+
+      case 'setOverride':
+        const overridden = getScenario(appState.data, event.scenarioId);
+        if (overridden) setOverride(overridden, event.nodeId, event.value);
+        break;
+
+      case 'selectScenario':
+        appState.activeScenarioId = event.scenarioId;
+        break;
+
+      case 'compareScenario':
+        appState.compareScenarioId = event.scenarioId;
+        break;
+
+      case 'analyseSensitivity':
+        appState.sensitivity = analyseSensitivity(appState.data, event.node.id, event.percent);
+        break;
+
+      case 'runMonteCarlo':
+        stopMonteCarlo();
+        const ignored = ignoredDistributions(appState.data);
+        if (ignored.length > 0) {
+          select('#logContainer')
+            .append('span')
+            .style('color', 'red')
+            .text(`Only inputs can be uncertain, so these distributions are ignored: ${ignored.map((n) => `"${n.label}"`).join(', ')}`);
+        }
+        monteCarloWorker = new Worker(new URL('./montecarlo.worker.ts', import.meta.url), { type: 'module' });
+        monteCarloWorker.onmessage = (message: MessageEvent<MonteCarloMessage>) => updateApp({ type: 'monteCarloMessage', message: message.data });
+        const request: MonteCarloRequest = { graph: appState.data, samples: event.samples, seed: event.seed };
+        monteCarloWorker.postMessage(request);
+        appState.monteCarlo = { ...appState.monteCarlo, running: true, done: 0, samples: event.samples };
+        break;
+
+      case 'monteCarloMessage':
+        const message = event.message;
+        if (message.type === 'progress') {
+          appState.monteCarlo.done = message.done;
+        } else if (message.type === 'result') {
+          stopMonteCarlo();
+          appState.monteCarlo.result = message.result;
+          appState.monteCarlo.done = message.result.samples;
+          appState.monteCarlo.histogramNodeId ??= appState.selected?.id ?? message.result.nodes[0]?.nodeId;
+          if (message.result.unevaluated.length > 0) {
+            select('#logContainer').append('span').text(`Monte Carlo: ${message.result.unevaluated.length} node(s) in feedback loops kept their current value.`);
+          }
+        } else {
+          stopMonteCarlo();
+          select('#logContainer').append('span').style('color', 'red').text(`Monte Carlo failed: ${message.message}`);
+        }
+        break;
+
+      case 'cancelMonteCarlo':
+        stopMonteCarlo();
+        break;
 
-      case 'exportGraph':
-        downloadJson(appState.data);
+      case 'showHistogram':
+        appState.monteCarlo.histogramNodeId = event.nodeId;
         break;
 
-    case 'init':
-    default:
-      break;
+      case 'goalSeek':
+        const sought = goalSeek(appState.data, {
+          targetId: event.targetId,
+          targetValue: event.targetValue,
+          inputId: event.inputId,
+          tolerance: 1e-9 * Math.max(1, Math.abs(event.targetValue)),
+          maxIterations: 200,
+        });
+        const seekTarget = getNodeById(appState.data, event.targetId);
+        const seekInput = getNodeById(appState.data, event.inputId);
+        if (sought.status === 'found') {
+          setInputValues(new Map([[event.inputId, sought.value]]));
+          appState.goalSeekMessage = `"${seekTarget.label}" = ${formatNumber(event.targetValue)} with "${seekInput.label}" = ${formatNumber(sought.value)}`;
+        } else {
+          appState.goalSeekMessage = `No value of "${seekInput.label}" found that makes "${seekTarget.label}" ${formatNumber(event.targetValue)}; closest: ${formatNumber(sought.achieved)} at ${formatNumber(sought.value)}. Nothing changed.`;
+        }
+        select('#logContainer').append('span').text(`Goal seek: ${appState.goalSeekMessage}`);
+        break;
+
+      case 'optimize':
+        const optimized = optimize(appState.data, { targetId: event.targetId, direction: event.direction, inputs: event.inputs, maxIterations: 1000 });
+        setInputValues(new Map(event.inputs.map((input, i) => [input.nodeId, optimized.values[i]])));
+        const optimizedLabels = event.inputs.map((input, i) => `"${getNodeById(appState.data, input.nodeId).label}" = ${formatNumber(optimized.values[i])}`);
+        appState.goalSeekMessage =
+          `"${getNodeById(appState.data, event.targetId).label}" ${event.direction === 'minimize' ? 'minimized' : 'maximized'} to ${formatNumber(optimized.achieved)} with ${optimizedLabels.join(', ')}` +
+          (optimized.converged ? '' : ' (stopped after the maximum number of iterations)');
+        select('#logContainer').append('span').text(`Optimize: ${appState.goalSeekMessage}`);
+        break;
+
+      case 'solveGraph':
+        // the loops read what's upstream of them, so that has to be up to date first
+        recalculate(appState.data, topologicalOrder(appState.data).order);
+        appState.solveResult = solveGraph(appState.data, { tolerance: event.tolerance, maxIterations: event.maxIterations });
+        const { status, iterations, residual } = appState.solveResult;
+        select('#logContainer').append('span').text(`Solve: ${status} after ${iterations} iterations (residual ${residual.toExponential(2)})`);
+        break;
+
+      case 'simulationStep':
+        const simulation = appState.simulation;
+        if (simulation.history.length === 0) simulation.history = [currentValues(appState.data)];
+        // stepping from an earlier point on the timeline discards the steps recorded after it
+        simulation.history = simulation.history.slice(0, simulation.shownStep + 1);
+        const nextValues = simulateStep(appState.data, simulation.history[simulation.shownStep]);
+        simulation.history.push(nextValues);
+        simulation.shownStep += 1;
+        applyStep(appState.data, nextValues);
+        if (simulation.playing && simulation.shownStep >= simulation.maxSteps) pauseSimulation();
+        break;
+
+      case 'simulationPlay':
+        appState.simulation.maxSteps = event.maxSteps;
+        if (appState.simulation.shownStep >= event.maxSteps) break;
+        appState.simulation.playing = true;
+        clearInterval(simulationTimer);
+        simulationTimer = setInterval(() => updateApp({ type: 'simulationStep' }), simulationInterval);
+        break;
+
+      case 'simulationPause':
+        pauseSimulation();
+        break;
+
+      case 'simulationReset':
+        pauseSimulation();
+        if (appState.simulation.history.length > 0) applyStep(appState.data, appState.simulation.history[0]);
+        appState.simulation.history = [];
+        appState.simulation.shownStep = 0;
+        break;
+
+      case 'simulationShowStep':
+        pauseSimulation();
+        appState.simulation.shownStep = event.step;
+        applyStep(appState.data, appState.simulation.history[event.step]);
+        break;
+
+      case 'toggleChartNode':
+        if (appState.chartNodeIds.includes(event.nodeId)) {
+          appState.chartNodeIds = appState.chartNodeIds.filter((id) => id !== event.nodeId);
+        } else {
+          appState.chartNodeIds.push(event.nodeId);
+        }
+        break;
+
+        case 'exportGraph':
+          downloadJson(toGraphFile(appState.data, appState.metadata));
+          break;
+
+      case 'exportForIncrementor':
+        const converted = expressionToIncrementorGraph(appState.data);
+        for (const warning of converted.warnings) select('#logContainer').append('span').text(`Export: ${warning}`);
+        downloadJson(toGraphFile(converted.graph, appState.metadata, 'incrementor'));
+        break;
+
+      case 'updateMetadata':
+        appState.metadata = event.metadata;
+        break;
+
+      case 'importGraph':
+        const imported = readGraphFile(event.json);
+        if (!imported.graph) {
+          logImportErrors(imported.errors);
+          break;
+        }
+        for (const warning of imported.warnings) select('#logContainer').append('span').text(`Import: ${warning}`);
+        // imports become a new model, so they never overwrite saved work
+        replaceGraph(createModelId(), imported.graph, imported.metadata);
+        select('#logContainer').append('span').text(`Imported graph with ${imported.graph.nodes.length} nodes`);
+        break;
+
+      case 'newModel':
+        replaceGraph(createModelId(), { nodes: [], edges: [] }, { ...emptyMetadata(), title: 'New model' });
+        break;
+
+      case 'openModel':
+        openStoredModel(event.id);
+        break;
+
+      case 'duplicateModel':
+        const stored = loadModel(event.id);
+        const original = stored === undefined ? undefined : migrate(stored).file;
+        if (!original) {
+          select('#logContainer').append('span').style('color', 'red').text('Duplicating failed: the stored model is missing or unreadable.');
+          break;
+        }
+        const copy = { ...original, metadata: { ...original.metadata, title: `${original.metadata.title || 'Untitled model'} (copy)` } };
+        saveModel(createModelId(), copy);
+        break;
+
+      case 'renameModel':
+        if (event.id === appState.modelId) {
+          appState.metadata = { ...appState.metadata, title: event.name };
+          break;
+        }
+        const renamed = migrate(loadModel(event.id)).file;
+        if (renamed) saveModel(event.id, { ...renamed, metadata: { ...renamed.metadata, title: event.name } });
+        break;
+
+      case 'deleteModel':
+        deleteModel(event.id);
+        if (event.id === appState.modelId) {
+          const remaining = listModels();
+          if (remaining.length > 0) openStoredModel(remaining[0].id);
+          else replaceGraph(createModelId(), { nodes: [], edges: [] }, { ...emptyMetadata(), title: 'New model' });
+        }
+        break;
+
+      case 'undo':
+        restoreSnapshot(undoHistory.undo());
+        break;
+
+      case 'redo':
+        restoreSnapshot(undoHistory.redo());
+        break;
+
+      case 'jumpToHistory':
+        restoreSnapshot(undoHistory.jumpTo(event.index));
+        break;
+
+      case 'init':
+        const lastModelId = getCurrentModelId();
+        if (lastModelId) openStoredModel(lastModelId);
+        break;
+
+      default:
+        break;
+    }
+
+    // edits recompute the scenario being looked at; the simulation shows its own values
+    if (event.type === 'selectScenario' || (appState.activeScenarioId !== undefined && !event.type.startsWith('simulation'))) showActiveScenario();
+
+    // all moveNode events of one drag become one entry
+    const coalesceKey =
+      event.type === 'moveNode' ? `moveNode:${event.node.id}:${event.dragId}`
+      : event.type === 'layoutGraph' || event.type === 'layoutFrame' ? `layout:${layoutRun}`
+      : undefined;
+    if (undoLabel && !isAnimationFrame(event)) undoHistory.record(undoLabel, appState.data, coalesceKey);
+  } catch (error) {
+    if (error instanceof ExpressionError) appState.expressionError = formatExpressionError(error);
+    else if (error instanceof MissingReferenceError) appState.expressionError = error.message;
+    else if (error instanceof CycleError) appState.expressionError = `${error.message}. Use "Solve" for feedback loops.`;
+    else if (error instanceof LabelError) appState.expressionError = error.message;
+    else throw error;
+    select('#logContainer').append('span').text(appState.expressionError);
+    pauseSimulation();
   }
+  appState.cycles = findCycles(appState.data);
+  appState.comparison = compareScenarios();
+  if (appState.sensitivity && !appState.data.nodes.some((n) => n.id === appState.sensitivity!.targetId)) appState.sensitivity = undefined;
+  if (!isAnimationFrame(event)) autosave();
+  // scrubbing the simulation timeline only shows old values, it doesn't change them
+  if (event.type !== 'simulationShowStep') recordValueHistory();
+  appState.chartNodeIds = appState.chartNodeIds.filter((id) => appState.data.nodes.some((n) => n.id === id));
 
   // step 2: given state, update app
-  drawGraph(appState.data, rootSvg);
-  drawNodeForm(appState.selected);
+  drawModules(appState.data);
+  drawGraph(visibleGraph(appState.data), rootSvg);
+  drawNodeForm(appState.selected, appState.expressionError);
+  drawSolveForm(appState.cycles, appState.solveResult);
+  drawSimulationForm(appState.simulation);
+  drawChartPanel(appState.data, appState.chartNodeIds);
+  drawMetadataForm(appState.metadata);
+  drawModelList(appState.modelId);
+  drawModuleForm(appState.data);
+  drawScenarioForm(appState.data);
+  drawComparisonPanel(appState.data, appState.comparison);
+  drawSensitivityPanel(appState.data, appState.sensitivity);
+  drawMonteCarloPanel(appState.data, appState.monteCarlo);
+  drawGoalSeekForm(appState.data, appState.goalSeekMessage);
+  drawHistoryPanel();
 
   console.log(appState);
 }
@@ -284,7 +1004,7 @@ function updateApp(event: Event) {
  * Form setting and reading
  **********************************************/
 
-function drawNodeForm(selected: AppState['selected']) {
+function drawNodeForm(selected: AppState['selected'], expressionError: AppState['expressionError']) {
   if (!selected) {
     const nodeForm = select('#nodeForm');
     nodeForm.style('opacity', '0');
@@ -295,13 +1015,23 @@ function drawNodeForm(selected: AppState['selected']) {
   nodeForm.style('opacity', '1');
   nodeForm.select('input[name="label"]').property('value', selected.label);
   nodeForm.select('input[name="valueExpression"]').property('value', selected.valueExpression);
-  nodeForm.select('span#valueSpan').property('innerHTML', selected.value);
+  nodeForm.select('input[name="unit"]').property('value', selected.unit ?? '');
+  nodeForm
+    .select('input[name="pinned"]')
+    .property('checked', selected.pinned ?? false)
+    .on('change', (evt) => updateApp({ type: 'updateNode', node: { ...selected, pinned: evt.target.checked } }));
+  nodeForm.select('span#valueSpan').text(`${selected.value}${selected.unit ? ` ${selected.unit}` : ''}`);
+  nodeForm.select('#expressionError').text(expressionError ?? (hasFailed(selected) ? selected.status!.message! : ''));
+  drawDistributionForm(selected);
+  drawSparkline(nodeForm.select<SVGSVGElement>('svg#sparkline'), nodeHistory(selected.id));
 
   nodeForm.select('button.nodeUpdate').on('click', () => {
     const newNode = { ...selected };
     const nodeForm = select('#nodeForm');
     newNode.label = nodeForm.select('input[name="label"]').property('value');
     newNode.valueExpression = nodeForm.select('input[name="valueExpression"]').property('value');
+    const unit = nodeForm.select('input[name="unit"]').property('value').trim();
+    newNode.unit = unit === '' ? undefined : unit;
     updateApp({ type: 'updateNode', node: newNode });
   });
 
@@ -314,7 +1044,11 @@ function drawNodeForm(selected: AppState['selected']) {
   nodeForm
     .select('button.evaluateDownstream')
     .on('click', () => updateApp({ type: 'evaluateDownstream', node: selected }));
-  nodeForm.select('button.evaluateUpstream').on('click', () => updateApp({ type: 'evaluateUpstream', node: selected }));
+  nodeForm.select('button.stepThrough').on('click', () => updateApp({ type: 'startStepThrough', node: selected }));
+  nodeForm.select('button.analyseSensitivity').on('click', () => {
+    const percent = +select('#sensitivityPanel input[name="sensitivityPercent"]').property('value');
+    updateApp({ type: 'analyseSensitivity', node: selected, percent: percent > 0 ? percent : 10 });
+  });
 }
 
 
@@ -323,7 +1057,7 @@ select('#nodeCreate').on('click', () =>
     type: 'createNode',
     node: {
       id: appState.data.nodes.length > 0 ? Math.max(...appState.data.nodes.map((n) => n.id)) + 1 : 1,
-      label: 'New node',
+      label: uniqueLabel(appState.data, 'New node'),
       value: 1,
       valueExpression: '1',
       x: 0.5,
@@ -335,6 +1069,502 @@ select('#nodeCreate').on('click', () =>
 
 select('#exportGraph').on('click', () => updateApp({type: 'exportGraph'}));
 
+select('#exportForIncrementor').on('click', () => updateApp({ type: 'exportForIncrementor' }));
+
+select('#layoutForce').on('click', () => updateApp({ type: 'layoutGraph', algorithm: 'force' }));
+
+select('#layoutLayered').on('click', () => updateApp({ type: 'layoutGraph', algorithm: 'layered' }));
+
+function drawMetadataForm(metadata: AppState['metadata']) {
+  const metadataForm = select('#metadataForm');
+  metadataForm.select('input[name="title"]').property('value', metadata.title);
+  metadataForm.select('input[name="author"]').property('value', metadata.author);
+  metadataForm.select('textarea[name="description"]').property('value', metadata.description);
+}
+
+select('#metadataForm').selectAll('input, textarea').on('change', () => {
+  const metadataForm = select('#metadataForm');
+  updateApp({
+    type: 'updateMetadata',
+    metadata: {
+      title: metadataForm.select('input[name="title"]').property('value'),
+      author: metadataForm.select('input[name="author"]').property('value'),
+      description: metadataForm.select('textarea[name="description"]').property('value'),
+    },
+  });
+});
+
+function drawModelList(currentModelId: AppState['modelId']) {
+  const items = select('#modelList ul')
+    .selectAll<HTMLLIElement, ModelSummary>('li')
+    .data(listModels(), (m) => m.id)
+    .join((enter) => {
+      const item = enter.append('li');
+      item.append('span').attr('class', 'modelName');
+      item.append('button').text('Open').on('click', (_, m) => updateApp({ type: 'openModel', id: m.id }));
+      item.append('button').text('Duplicate').on('click', (_, m) => updateApp({ type: 'duplicateModel', id: m.id }));
+      item.append('button').text('Rename').on('click', (_, m) => {
+        const name = prompt('New name', m.name);
+        if (name) updateApp({ type: 'renameModel', id: m.id, name });
+      });
+      item.append('button').text('Delete').on('click', (_, m) => {
+        if (confirm(`Delete "${m.name}"?`)) updateApp({ type: 'deleteModel', id: m.id });
+      });
+      return item;
+    });
+  items
+    .select('.modelName')
+    .text((m) => m.name)
+    .style('font-weight', (m) => (m.id === currentModelId ? 'bold' : 'normal'));
+}
+
+select('#newModel').on('click', () => updateApp({ type: 'newModel' }));
+
+function drawModuleForm(graph: Graph) {
+  const moduleItems = select('#moduleForm ul.moduleList')
+    .selectAll<HTMLLIElement, Module>('li')
+    .data(graph.modules ?? [], (m) => m.id)
+    .join((enter) => {
+      const item = enter.append('li');
+      item.append('span').attr('class', 'moduleName');
+      item.append('button').attr('class', 'toggleModule').on('click', (_, m) => updateApp({ type: 'toggleModule', moduleId: m.id }));
+      item.append('button').text('Ungroup').on('click', (_, m) => updateApp({ type: 'ungroupModule', moduleId: m.id }));
+      item.append('button').text('Save as template').on('click', (_, m) => updateApp({ type: 'saveModuleTemplate', moduleId: m.id }));
+      return item;
+    });
+  moduleItems.select('.moduleName').text((m) => {
+    const { inputs, outputs } = modulePorts(graph, m);
+    return `${m.name} (in: ${inputs.map((n) => n.label).join(', ') || '-'}; out: ${outputs.map((n) => n.label).join(', ') || '-'})`;
+  });
+  moduleItems.select('.toggleModule').text((m) => (m.collapsed ? 'Expand' : 'Collapse'));
+
+  select('#moduleForm ul.templateList')
+    .selectAll<HTMLLIElement, ModuleTemplate>('li')
+    .data(listTemplates(), (t) => t.name)
+    .join((enter) => {
+      const item = enter.append('li');
+      item.append('span').text((t) => `${t.name} (in: ${t.inputs.join(', ') || '-'})`);
+      item.append('button').text('Insert').on('click', (_, t) => {
+        const copies = (graph.modules ?? []).filter((m) => m.name.startsWith(t.name)).length;
+        const namespace = prompt('Name of the new copy; its labels are prefixed with it', `${t.name} ${copies + 1}`);
+        if (namespace) updateApp({ type: 'instantiateTemplate', name: t.name, namespace });
+      });
+      item.append('button').text('Delete').on('click', (_, t) => {
+        if (confirm(`Delete template "${t.name}"?`)) updateApp({ type: 'deleteTemplate', name: t.name });
+      });
+      return item;
+    });
+}
+
+select('#moduleForm button.createModule').on('click', () =>
+  updateApp({ type: 'createModule', name: select('#moduleForm input[name="moduleName"]').property('value') })
+);
+
+
+function drawScenarioForm(graph: Graph) {
+  const scenarioForm = select('#scenarioForm');
+  const options = [{ id: undefined, name: 'Baseline' }, ...(graph.scenarios ?? [])];
+  for (const [name, selectedId] of [['activeScenario', appState.activeScenarioId], ['compareScenario', appState.compareScenarioId]] as const) {
+    scenarioForm
+      .select(`select[name="${name}"]`)
+      .selectAll<HTMLOptionElement, (typeof options)[number]>('option')
+      .data(options)
+      .join('option')
+      .attr('value', (o) => o.id ?? '')
+      .text((o) => o.name)
+      .property('selected', (o) => o.id === selectedId);
+  }
+  const active = getScenario(graph, appState.activeScenarioId);
+  scenarioForm.select('button.deleteScenario').property('disabled', !active);
+
+  // overrides only make sense for inputs; everything else follows from them
+  const baseline = active ? scenarioValues(graph, undefined) : {};
+  const rows = scenarioForm
+    .select('table.overrideTable')
+    .style('display', active ? 'table' : 'none')
+    .select('tbody')
+    .selectAll<HTMLTableRowElement, Node>('tr')
+    .data(active ? getInputNodes(graph) : [], (n) => n.id)
+    .join((enter) => {
+      const row = enter.append('tr');
+      row.append('td').attr('class', 'label');
+      row.append('td').attr('class', 'baseline');
+      row.append('td').append('input').attr('type', 'number').attr('step', 'any').style('width', '6em');
+      return row;
+    });
+  rows.select('.label').text((n) => n.label);
+  rows.select('.baseline').text((n) => formatNumber(baseline[n.id]));
+  rows
+    .select('input')
+    .property('value', (n) => active?.overrides.find((o) => o.nodeId === n.id)?.value ?? '')
+    .attr('placeholder', (n) => formatNumber(baseline[n.id]))
+    .on('change', function (_, n) {
+      const text = (this as HTMLInputElement).value.trim();
+      if (text !== '' && !Number.isFinite(+text)) return;
+      updateApp({ type: 'setOverride', scenarioId: active!.id, nodeId: n.id, value: text === '' ? undefined : +text });
+    });
+}
+
+const selectedScenarioId = (selectElement: HTMLSelectElement) => (selectElement.value === '' ? undefined : +selectElement.value);
+
+select('#scenarioForm select[name="activeScenario"]').on('change', function () {
+  updateApp({ type: 'selectScenario', scenarioId: selectedScenarioId(this as HTMLSelectElement) });
+});
+select('#scenarioForm select[name="compareScenario"]').on('change', function () {
+  updateApp({ type: 'compareScenario', scenarioId: selectedScenarioId(this as HTMLSelectElement) });
+});
+select('#scenarioForm button.createScenario').on('click', () =>
+  updateApp({ type: 'createScenario', name: select('#scenarioForm input[name="scenarioName"]').property('value') })
+);
+select('#scenarioForm button.deleteScenario').on('click', () => {
+  const active = getScenario(appState.data, appState.activeScenarioId);
+  if (active && confirm(`Delete scenario "${active.name}"?`)) updateApp({ type: 'deleteScenario', scenarioId: active.id });
+});
+
+function drawComparisonPanel(graph: Graph, comparison: AppState['comparison']) {
+  const comparisonPanel = select('#comparisonPanel');
+  comparisonPanel.style('display', comparison ? 'block' : 'none');
+  if (!comparison) return;
+
+  const nameOf = (id: Scenario['id'] | undefined) => getScenario(graph, id)?.name ?? 'Baseline';
+  comparisonPanel.select('th.fromName').text(nameOf(appState.compareScenarioId));
+  comparisonPanel.select('th.toName').text(nameOf(appState.activeScenarioId));
+  comparisonPanel
+    .select('tbody')
+    .selectAll<HTMLTableRowElement, ValueDelta>('tr')
+    .data(comparison, (d) => d.nodeId)
+    .join((enter) => {
+      const row = enter.append('tr');
+      for (const column of ['label', 'from', 'to', 'absolute', 'percent']) row.append('td').attr('class', column);
+      return row;
+    })
+    .call((row) => {
+      row.select('.label').text((d) => getNodeById(graph, d.nodeId).label);
+      row.select('.from').text((d) => formatNumber(d.from));
+      row.select('.to').text((d) => formatNumber(d.to));
+      row.select('.absolute').text((d) => `${d.absolute > 0 ? '+' : ''}${formatNumber(d.absolute)}`);
+      row.select('.percent').text((d) => (d.percent === undefined ? '-' : `${d.percent > 0 ? '+' : ''}${d.percent.toFixed(1)}%`));
+      row.style('color', (d) => (d.absolute === 0 ? 'grey' : 'black'));
+    });
+}
+
+/**
+ * A starting point around the node's current value, to be adjusted in the form.
+ */
+function defaultDistribution(kind: Distribution['kind'], value: number): Distribution {
+  const spread = Math.abs(value) * 0.1 || 1;
+  switch (kind) {
+    case 'normal':
+      return { kind, mean: value, sd: spread };
+    case 'uniform':
+      return { kind, min: value - spread, max: value + spread };
+    case 'triangular':
+      return { kind, min: value - spread, mode: value, max: value + spread };
+    case 'lognormal':
+      return { kind, mu: value > 0 ? Math.log(value) : 0, sigma: 0.1 };
+  }
+}
+
+/**
+ * Only inputs can be uncertain; everything else follows from them.
+ */
+function drawDistributionForm(selected: Node) {
+  const distributionForm = select('#nodeForm .distributionForm');
+  const isInput = getInputNodes(appState.data).some((n) => n.id === selected.id);
+  distributionForm.style('display', isInput ? 'block' : 'none');
+  const distribution = selected.distribution;
+
+  distributionForm
+    .select('select[name="distributionKind"]')
+    .property('value', distribution?.kind ?? '')
+    .on('change', function () {
+      const kind = (this as HTMLSelectElement).value as Distribution['kind'] | '';
+      updateApp({ type: 'updateNode', node: { ...selected, distribution: kind === '' ? undefined : defaultDistribution(kind, selected.value) } });
+    });
+
+  const parameters = distribution ? distributionParameters[distribution.kind] : [];
+  const fields = distributionForm
+    .select('.distributionParameters')
+    .selectAll<HTMLLabelElement, string>('label')
+    .data(parameters, (p) => p)
+    .join((enter) => {
+      const label = enter.append('label');
+      label.append('span').text((p) => `${p}: `);
+      label.append('input').attr('type', 'number').attr('step', 'any').style('width', '5em');
+      return label;
+    });
+  fields
+    .select('input')
+    .property('value', (p) => (distribution as Record<string, number> | undefined)?.[p] ?? '')
+    .on('change', function (_, parameter) {
+      const changed = { ...distribution, [parameter]: +(this as HTMLInputElement).value };
+      const problems = describeDistributionProblems(changed);
+      if (problems.length > 0) {
+        select('#logContainer').append('span').style('color', 'red').text(`Distribution of "${selected.label}": ${problems.join(', ')}`);
+        return;
+      }
+      updateApp({ type: 'updateNode', node: { ...selected, distribution: changed as Distribution } });
+    });
+}
+
+function drawMonteCarloPanel(graph: Graph, monteCarlo: AppState['monteCarlo']) {
+  const monteCarloPanel = select('#monteCarloPanel');
+  monteCarloPanel.select('button.runMonteCarlo').property('disabled', monteCarlo.running);
+  monteCarloPanel.select('button.cancelMonteCarlo').property('disabled', !monteCarlo.running);
+  const uncertain = getInputNodes(graph).filter((n) => n.distribution).length;
+  monteCarloPanel
+    .select('.monteCarloStatus')
+    .text(
+      monteCarlo.running ? `Running: ${monteCarlo.done} / ${monteCarlo.samples} draws`
+      : monteCarlo.result ? `${monteCarlo.result.samples} draws, seed ${monteCarlo.result.seed}`
+      : `${uncertain} input(s) with a distribution. Set them in the node form.`
+    );
+
+  const statistics = (monteCarlo.result?.nodes ?? []).filter((s) => graph.nodes.some((n) => n.id === s.nodeId));
+  monteCarloPanel
+    .select('tbody')
+    .selectAll<HTMLTableRowElement, (typeof statistics)[number]>('tr')
+    .data(statistics, (s) => s.nodeId)
+    .join((enter) => {
+      const row = enter.append('tr').style('cursor', 'pointer').on('click', (_, s) => updateApp({ type: 'showHistogram', nodeId: s.nodeId }));
+      for (const column of ['label', 'mean', 'p5', 'p50', 'p95']) row.append('td').attr('class', column);
+      return row;
+    })
+    .call((row) => {
+      row.style('font-weight', (s) => (s.nodeId === monteCarlo.histogramNodeId ? 'bold' : 'normal'));
+      row.select('.label').text((s) => getNodeById(graph, s.nodeId).label + (s.invalid > 0 ? ` (${s.invalid} invalid)` : ''));
+      row.select('.mean').text((s) => formatNumber(s.mean));
+      row.select('.p5').text((s) => formatNumber(s.p5));
+      row.select('.p50').text((s) => formatNumber(s.p50));
+      row.select('.p95').text((s) => formatNumber(s.p95));
+    });
+
+  const shown = statistics.find((s) => s.nodeId === monteCarlo.histogramNodeId);
+  drawHistogram(
+    monteCarloPanel.select<SVGSVGElement>('svg#histogram'),
+    shown?.histogram ?? [],
+    shown ? [{ label: 'P5', value: shown.p5 }, { label: 'mean', value: shown.mean }, { label: 'P95', value: shown.p95 }] : []
+  );
+}
+
+select('#monteCarloPanel button.runMonteCarlo').on('click', () => {
+  const monteCarloPanel = select('#monteCarloPanel');
+  const samples = Math.round(+monteCarloPanel.select('input[name="samples"]').property('value'));
+  const seed = Math.round(+monteCarloPanel.select('input[name="seed"]').property('value'));
+  updateApp({ type: 'runMonteCarlo', samples: samples > 0 ? Math.min(samples, maxSamples) : 1000, seed: Number.isFinite(seed) ? seed : 1 });
+});
+select('#monteCarloPanel button.cancelMonteCarlo').on('click', () => updateApp({ type: 'cancelMonteCarlo' }));
+
+function drawGoalSeekForm(graph: Graph, message: AppState['goalSeekMessage']) {
+  const goalSeekForm = select('#goalSeekForm');
+  // only inputs can be adjusted: writing a number into any other node would throw away its formula
+  const inputs = getInputNodes(graph);
+  const fillOptions = (name: string, nodes: Node[]) =>
+    goalSeekForm
+      .select(`select[name="${name}"]`)
+      .selectAll<HTMLOptionElement, Node>('option')
+      .data(nodes, (n) => n.id)
+      .join('option')
+      .attr('value', (n) => n.id)
+      .text((n) => n.label);
+  fillOptions('goalTarget', graph.nodes);
+  fillOptions('goalInput', inputs);
+  fillOptions('optimizeTarget', graph.nodes);
+
+  // checkboxes and bounds keep whatever was entered; new rows start at 0 to twice the current value
+  const rows = goalSeekForm
+    .select('table.optimizeInputs tbody')
+    .selectAll<HTMLTableRowElement, Node>('tr')
+    .data(inputs, (n) => n.id)
+    .join((enter) => {
+      const row = enter.append('tr');
+      row.append('td').append('input').attr('type', 'checkbox').attr('name', 'vary');
+      row.append('td').attr('class', 'label');
+      row.append('td').append('input').attr('type', 'number').attr('step', 'any').attr('name', 'min').style('width', '5em').property('value', (n) => Math.min(0, 2 * n.value));
+      row.append('td').append('input').attr('type', 'number').attr('step', 'any').attr('name', 'max').style('width', '5em').property('value', (n) => Math.max(0, 2 * n.value) || 1);
+      return row;
+    });
+  rows.select('.label').text((n) => n.label);
+
+  goalSeekForm.select('.goalSeekResult').text(message ?? '');
+}
+
+select('#goalSeekForm button.goalSeek').on('click', () => {
+  const goalSeekForm = select('#goalSeekForm');
+  const targetId = +goalSeekForm.select('select[name="goalTarget"]').property('value');
+  const inputId = +goalSeekForm.select('select[name="goalInput"]').property('value');
+  const targetValue = +goalSeekForm.select('input[name="goalValue"]').property('value');
+  if (!targetId || !inputId || !Number.isFinite(targetValue)) return;
+  updateApp({ type: 'goalSeek', targetId, targetValue, inputId });
+});
+
+select('#goalSeekForm button.optimize').on('click', () => {
+  const goalSeekForm = select('#goalSeekForm');
+  const targetId = +goalSeekForm.select('select[name="optimizeTarget"]').property('value');
+  const direction = goalSeekForm.select('select[name="optimizeDirection"]').property('value');
+  const inputs: BoundedInput[] = [];
+  goalSeekForm.selectAll<HTMLTableRowElement, Node>('table.optimizeInputs tbody tr').each(function (node) {
+    const row = select(this);
+    if (!row.select('input[name="vary"]').property('checked')) return;
+    const min = +row.select('input[name="min"]').property('value');
+    const max = +row.select('input[name="max"]').property('value');
+    if (Number.isFinite(min) && Number.isFinite(max) && min <= max) inputs.push({ nodeId: node.id, min, max });
+  });
+  if (!targetId || inputs.length === 0) {
+    select('#logContainer').append('span').text('Optimize: tick at least one input, with min <= max.');
+    return;
+  }
+  updateApp({ type: 'optimize', targetId, direction, inputs });
+});
+
+function drawSensitivityPanel(graph: Graph, sensitivity: AppState['sensitivity']) {
+  const sensitivityPanel = select('#sensitivityPanel');
+  if (!sensitivity) {
+    sensitivityPanel.select('.sensitivitySummary').text('Select an output node and click "Sensitivity" in the node form.');
+    sensitivityPanel.select('ol').selectAll('li').remove();
+    drawTornadoChart(sensitivityPanel.select<SVGSVGElement>('svg#tornado'), [], 0);
+    return;
+  }
+
+  const labelOf = (id: Node['id']) => getNodeById(graph, id).label;
+  const { targetId, percent, targetValue, inputs } = sensitivity;
+  sensitivityPanel
+    .select('.sensitivitySummary')
+    .text(`"${labelOf(targetId)}" = ${formatNumber(targetValue)}, each input moved by ±${percent}%` + (inputs.length === 0 ? ': no inputs affect it.' : ''));
+  sensitivityPanel
+    .select('ol')
+    .selectAll('li')
+    .data(inputs)
+    .join('li')
+    .text((i) => `${labelOf(i.nodeId)}: ${formatNumber(i.low)} … ${formatNumber(i.high)}, elasticity ${i.elasticity === undefined ? '-' : i.elasticity.toFixed(3)}`);
+  drawTornadoChart(
+    sensitivityPanel.select<SVGSVGElement>('svg#tornado'),
+    inputs.map((i) => ({ label: labelOf(i.nodeId), low: i.low, high: i.high })),
+    targetValue
+  );
+}
+
+function drawHistoryPanel() {
+  const historyPanel = select('#historyPanel');
+  historyPanel.select('button.undo').property('disabled', !undoHistory.canUndo());
+  historyPanel.select('button.redo').property('disabled', !undoHistory.canRedo());
+  historyPanel
+    .select('ol')
+    .selectAll('li')
+    .data(undoHistory.list())
+    .join('li')
+    .text((entry) => entry.label)
+    .style('font-weight', (entry) => (entry.current ? 'bold' : 'normal'))
+    .style('cursor', 'pointer')
+    .on('click', (_, entry) => updateApp({ type: 'jumpToHistory', index: entry.index }));
+}
+
+select('#historyPanel button.undo').on('click', () => updateApp({ type: 'undo' }));
+select('#historyPanel button.redo').on('click', () => updateApp({ type: 'redo' }));
+
+select(document).on('keydown', (evt: KeyboardEvent) => {
+  // text fields keep their own undo, copy/paste and backspace
+  if (evt.target instanceof HTMLInputElement || evt.target instanceof HTMLTextAreaElement) return;
+  if ((evt.key === 'Delete' || evt.key === 'Backspace') && appState.selectedIds.length > 0) {
+    evt.preventDefault();
+    updateApp({ type: 'deleteSelection' });
+    return;
+  }
+  if (!(evt.ctrlKey || evt.metaKey)) return;
+  const key = evt.key.toLowerCase();
+  if (key === 'c') {
+    updateApp({ type: 'copySelection' });
+  } else if (key === 'v') {
+    evt.preventDefault();
+    updateApp({ type: 'pasteClipboard' });
+  } else if (key === 'z' && !evt.shiftKey) {
+    evt.preventDefault();
+    updateApp({ type: 'undo' });
+  } else if ((key === 'z' && evt.shiftKey) || key === 'y') {
+    evt.preventDefault();
+    updateApp({ type: 'redo' });
+  }
+});
+
+select('#importGraph').on('click', () => (document.querySelector('#importFile') as HTMLInputElement).click());
+
+select('#importFile').on('change', function () {
+  const input = this as HTMLInputElement;
+  const file = input.files?.[0];
+  if (file) readJsonFile(file, (json) => updateApp({ type: 'importGraph', json }));
+  // allow importing the same file again
+  input.value = '';
+});
+
+
+function drawSolveForm(cycles: AppState['cycles'], solveResult: AppState['solveResult']) {
+  const solveForm = select('#solveForm');
+  const cycleLabels = cycles.map((cycle) => cycle.map((id) => getNodeById(appState.data, id).label).join(' ⇄ '));
+  solveForm.select('#cycleList').text(cycles.length > 0 ? cycleLabels.join('; ') : 'none');
+  solveForm.select('#solveResult').text(solveResult ? `${solveResult.status} after ${solveResult.iterations} iterations` : '');
+}
+
+select('#solveForm button.solveGraph').on('click', () => {
+  const solveForm = select('#solveForm');
+  updateApp({
+    type: 'solveGraph',
+    tolerance: +solveForm.select('input[name="tolerance"]').property('value'),
+    maxIterations: +solveForm.select('input[name="maxIterations"]').property('value'),
+  });
+});
+
+
+function drawSimulationForm(simulation: AppState['simulation']) {
+  const simulationForm = select('#simulationForm');
+  const lastStep = Math.max(simulation.history.length - 1, 0);
+  simulationForm.select('input[name="timeline"]').property('max', lastStep).property('value', simulation.shownStep);
+  simulationForm.select('#simulationStepSpan').text(`t = ${simulation.shownStep} / ${lastStep}`);
+  simulationForm.select('button.simulationPlay').property('disabled', simulation.playing);
+  simulationForm.select('button.simulationPause').property('disabled', !simulation.playing);
+}
+
+select('#simulationForm button.simulationPlay').on('click', () => {
+  const maxSteps = +select('#simulationForm input[name="maxSteps"]').property('value');
+  updateApp({ type: 'simulationPlay', maxSteps });
+});
+select('#simulationForm button.simulationPause').on('click', () => updateApp({ type: 'simulationPause' }));
+select('#simulationForm button.simulationStep').on('click', () => updateApp({ type: 'simulationStep' }));
+select('#simulationForm button.simulationReset').on('click', () => updateApp({ type: 'simulationReset' }));
+select('#simulationForm input[name="timeline"]').on('input', function () {
+  updateApp({ type: 'simulationShowStep', step: +(this as HTMLInputElement).value });
+});
+
+
+function drawChartPanel(graph: Graph, chartNodeIds: AppState['chartNodeIds']) {
+  const chartPanel = select('#chartPanel');
+  const checkboxes = chartPanel
+    .select('#chartNodeList')
+    .selectAll<HTMLLabelElement, Node>('label')
+    .data(graph.nodes, (d) => d.id)
+    .join((enter) => {
+      const label = enter.append('label');
+      label.append('input').attr('type', 'checkbox').on('change', (_, node) => updateApp({ type: 'toggleChartNode', nodeId: node.id }));
+      label.append('span');
+      return label;
+    });
+  checkboxes.select('input').property('checked', (d) => chartNodeIds.includes(d.id));
+  checkboxes.select('span').text((d) => d.label);
+
+  const series = chartNodeIds.map((id) => ({ label: getNodeById(graph, id).label, values: nodeHistory(id) }));
+  drawLineChart(chartPanel.select<SVGSVGElement>('svg#chart'), series);
+}
+
+
+function drawFunctionHelp() {
+  select('#functionHelp ul')
+    .selectAll('li')
+    .data(Array.from(builtinFunctions.values()))
+    .join('li')
+    .text((f) => `${f.signature}: ${f.description}`);
+}
+
+drawFunctionHelp();
+
 
 
 /**********************************************
@@ -349,6 +1579,12 @@ const xScale = scaleLinear([0, 1], [0, viewBoxX]);
 const yScale = scaleLinear([0, 1], [0, viewBoxY]);
 
 const rootSvg = select<SVGSVGElement, unknown>('#svg')
+  .on('dragover', (evt: DragEvent) => evt.preventDefault())
+  .on('drop', (evt: DragEvent) => {
+    evt.preventDefault();
+    const file = evt.dataTransfer?.files[0];
+    if (file) readJsonFile(file, (json) => updateApp({ type: 'importGraph', json }));
+  })
   .attr('viewBox', `0 0 ${viewBoxX} ${viewBoxY}`);
 const defs = rootSvg.append('defs');
 defs
@@ -363,6 +1599,46 @@ defs
   .append('path')
   .attr('d', 'M 0 0 L 10 5 L 0 10 z');
 
+/**
+ * Dragging across empty space selects the nodes inside the band; with shift, in addition to the current selection.
+ * A click on empty space clears the selection.
+ */
+rootSvg.call(
+  drag<SVGSVGElement, unknown>()
+    .container(function () {
+      return this;
+    })
+    .on('start', () => {
+      rootSvg
+        .append('rect')
+        .attr('class', 'selectionBand')
+        .attr('fill', 'steelblue')
+        .attr('fill-opacity', 0.1)
+        .attr('stroke', 'steelblue')
+        .style('pointer-events', 'none');
+    })
+    .on('drag', (evt) => {
+      const { x, y } = evt.subject;
+      rootSvg
+        .select('.selectionBand')
+        .attr('x', Math.min(x, evt.x))
+        .attr('y', Math.min(y, evt.y))
+        .attr('width', Math.abs(evt.x - x))
+        .attr('height', Math.abs(evt.y - y));
+    })
+    .on('end', (evt) => {
+      rootSvg.select('.selectionBand').remove();
+      const { x, y } = evt.subject;
+      const inBand = (node: Node) =>
+        xScale(node.x) >= Math.min(x, evt.x) && xScale(node.x) <= Math.max(x, evt.x) &&
+        yScale(node.y) >= Math.min(y, evt.y) && yScale(node.y) <= Math.max(y, evt.y);
+      updateApp({ type: 'selectNodes', ids: appState.data.nodes.filter(inBand).map((n) => n.id), additive: evt.sourceEvent.shiftKey });
+    })
+);
+
+// behind everything drawGraph draws, so that boxes don't catch clicks meant for nodes
+const moduleLayer = rootSvg.append('g').attr('class', 'moduleLayer');
+
 /**********************************************
  * Drawing functions
  **********************************************/
@@ -370,8 +1646,13 @@ defs
 class Breaker<T> {
   private queue?: T;
   private scheduled?: number;
+  private timeout: number;
+  private callback: (d: T) => undefined;
 
-  constructor(private timeout: number, private callback: (d: T) => undefined) {}
+  constructor(timeout: number, callback: (d: T) => undefined) {
+    this.timeout = timeout;
+    this.callback = callback;
+  }
 
   enqueue(datum: T) {
     this.queue = datum;
@@ -385,10 +1666,40 @@ class Breaker<T> {
   }
 }
 
-const dragBreaker = new Breaker<{ evt: DragEvent; node: Node }>(50, ({ evt, node }) => {
-  updateApp({ type: 'moveNode', node });
+const dragBreaker = new Breaker<{ node: Node; dragId: number }>(50, ({ node, dragId }) => {
+  updateApp({ type: 'moveNode', node, dragId });
 });
 
+let dragCount = 0;
+
+/**
+ * Dragging from a node's handle draws a preview line; dropping it on another node makes that node reference it.
+ */
+function connectDrag(graph: Graph, rootSvg: Selection<SVGSVGElement, unknown, HTMLElement, any>, radius: (node: Node) => number) {
+  return drag<SVGCircleElement, Node>()
+    .on('start', (_, source) => {
+      rootSvg
+        .append('line')
+        .attr('class', 'connectionPreview')
+        .attr('x1', xScale(source.x))
+        .attr('y1', yScale(source.y))
+        .attr('x2', xScale(source.x))
+        .attr('y2', yScale(source.y))
+        .attr('stroke', 'grey')
+        .attr('stroke-dasharray', '4 2')
+        .attr('marker-end', 'url(#arrow)')
+        .style('pointer-events', 'none');
+    })
+    .on('drag', (evt) => {
+      rootSvg.select('.connectionPreview').attr('x2', evt.x).attr('y2', evt.y);
+    })
+    .on('end', (evt, source) => {
+      rootSvg.select('.connectionPreview').remove();
+      const target = graph.nodes.find((n) => n.id !== source.id && Math.hypot(xScale(n.x) - evt.x, yScale(n.y) - evt.y) <= radius(n));
+      if (target) updateApp({ type: 'connectNodes', source, target });
+    });
+}
+
 
 function wayMinusBuffer(graph: Graph, startId: number, targetId: number, buffer: number) {
   const startNode = getNodeById(graph, startId);
@@ -407,6 +1718,98 @@ function wayMinusBuffer(graph: Graph, startId: number, targetId: number, buffer:
   return { x: fractionX, y: fractionY };
 }
 
+/**
+ * Expanded modules are a frame around their nodes.
+ * Collapsed ones are a box at their nodes' center, with input ports on the left and output ports on the right,
+ * wired to the nodes outside that they connect to. A click on the title toggles.
+ */
+function drawModules(graph: Graph) {
+  const center = (module: Module) => {
+    const members = graph.nodes.filter((n) => module.nodeIds.includes(n.id));
+    return {
+      x: members.reduce((sum, n) => sum + xScale(n.x), 0) / members.length,
+      y: members.reduce((sum, n) => sum + yScale(n.y), 0) / members.length,
+    };
+  };
+  // where a line to `node` ends: the node itself, or the box it is hidden in
+  const anchorOf = (node: Node) => {
+    const module = getModuleOf(graph, node.id);
+    return module?.collapsed ? center(module) : { x: xScale(node.x), y: yScale(node.y) };
+  };
+
+  moduleLayer
+    .selectAll<SVGGElement, Module>('g.module')
+    .data(graph.modules ?? [], (m) => m.id)
+    .join('g')
+    .attr('class', 'module')
+    .each(function (module) {
+      const group = select(this);
+      group.selectAll('*').remove();
+      const title = group
+        .append('text')
+        .attr('font-weight', 'bold')
+        .style('cursor', 'pointer')
+        .text(`${module.collapsed ? '▸' : '▾'} ${module.name}`)
+        .on('click', () => updateApp({ type: 'toggleModule', moduleId: module.id }));
+
+      if (!module.collapsed) {
+        const members = graph.nodes.filter((n) => module.nodeIds.includes(n.id));
+        const left = Math.min(...members.map((n) => xScale(n.x))) - 30;
+        const top = Math.min(...members.map((n) => yScale(n.y))) - 30;
+        const right = Math.max(...members.map((n) => xScale(n.x))) + 30;
+        const bottom = Math.max(...members.map((n) => yScale(n.y))) + 30;
+        group
+          .insert('rect', 'text')
+          .attr('x', left)
+          .attr('y', top)
+          .attr('width', right - left)
+          .attr('height', bottom - top)
+          .attr('rx', 6)
+          .attr('fill', '#f5f5f5')
+          .attr('stroke', 'grey')
+          .attr('stroke-dasharray', '4 2');
+        title.attr('x', left + 4).attr('y', top + 14);
+        return;
+      }
+
+      const { inputs, outputs } = modulePorts(graph, module);
+      const { x, y } = center(module);
+      const width = 120;
+      const height = 30 + 14 * Math.max(inputs.length, outputs.length, 1);
+      const portY = (i: number) => y - height / 2 + 30 + 14 * i;
+      group
+        .insert('rect', 'text')
+        .attr('x', x - width / 2)
+        .attr('y', y - height / 2)
+        .attr('width', width)
+        .attr('height', height)
+        .attr('rx', 6)
+        .attr('fill', 'white')
+        .attr('stroke', 'black');
+      title.attr('x', x - width / 2 + 4).attr('y', y - height / 2 + 14);
+
+      inputs.forEach((input, i) => {
+        const from = anchorOf(input);
+        group.append('line').attr('x1', from.x).attr('y1', from.y).attr('x2', x - width / 2).attr('y2', portY(i)).attr('stroke', 'black').attr('marker-end', 'url(#arrow)');
+        group.append('circle').attr('cx', x - width / 2).attr('cy', portY(i)).attr('r', 3).attr('fill', 'black');
+        group.append('text').attr('x', x - width / 2 + 6).attr('y', portY(i) + 4).attr('font-size', 10).text(input.label);
+      });
+      outputs.forEach((output, i) => {
+        for (const edge of graph.edges.filter((e) => e.source === output.id && !module.nodeIds.includes(e.target))) {
+          const to = anchorOf(getNodeById(graph, edge.target));
+          group.append('line').attr('x1', x + width / 2).attr('y1', portY(i)).attr('x2', to.x).attr('y2', to.y).attr('stroke', 'black').attr('marker-end', 'url(#arrow)');
+        }
+        group.append('circle').attr('cx', x + width / 2).attr('cy', portY(i)).attr('r', 3).attr('fill', 'black');
+        group.append('text').attr('x', x + width / 2 - 6).attr('y', portY(i) + 4).attr('font-size', 10).attr('text-anchor', 'end').text(output.label.replace(`${module.name}.`, ''));
+      });
+    });
+}
+
+/** `~` marks inputs with a distribution */
+function nodeLabelText(node: Node) {
+  return `${node.label}: ${node.value}${node.unit ? ` ${node.unit}` : ''}${node.distribution ? ' ~' : ''}`;
+}
+
 function drawGraph(graph: Graph, rootSvg: Selection<SVGSVGElement, unknown, HTMLElement, any>) {
   const maxVal = Math.max(...graph.nodes.map(n => n.value));
   const radiusScale = scaleLinear([0, maxVal], [5, 50]).clamp(true);
@@ -417,7 +1820,9 @@ function drawGraph(graph: Graph, rootSvg: Selection<SVGSVGElement, unknown, HTML
     .attr('x1', (edge) => xScale(getNodeById(graph, edge.source).x))
     .attr('y1', (edge) => yScale(getNodeById(graph, edge.source).y))
     .attr('x2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, radiusScale(getNodeById(graph, edge.target).value)).x)
-    .attr('y2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, radiusScale(getNodeById(graph, edge.target).value)).y);
+    .attr('y2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, radiusScale(getNodeById(graph, edge.target).value)).y)
+    .attr('stroke', (edge) => (isCyclicEdge(edge, appState.cycles) ? 'red' : edge.delayed ? 'grey' : 'black'))
+    .attr('stroke-dasharray', (edge) => (isCyclicEdge(edge, appState.cycles) ? '4 2' : edge.delayed ? '1 2' : null));
   connections
     .enter()
     .append('line')
@@ -426,14 +1831,16 @@ function drawGraph(graph: Graph, rootSvg: Selection<SVGSVGElement, unknown, HTML
     .attr('y1', (edge) => yScale(getNodeById(graph, edge.source).y))
     .attr('x2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, 15).x)
     .attr('y2', (edge) => wayMinusBuffer(graph, edge.source, edge.target, 15).y)
-    .attr('stroke', 'black')
+    .attr('stroke', (edge) => (isCyclicEdge(edge, appState.cycles) ? 'red' : edge.delayed ? 'grey' : 'black'))
+    .attr('stroke-dasharray', (edge) => (isCyclicEdge(edge, appState.cycles) ? '4 2' : edge.delayed ? '1 2' : null))
     .attr('marker-end', 'url(#arrow)');
   connections.exit().remove();
 
   const nodes = rootSvg
     .selectAll<SVGCircleElement, Node>('.node')
     .data(graph.nodes, (d: Node) => d.id)
-    .attr('stroke', (d) => (isSelected(d) ? 'black' : 'none'))
+    .attr('fill', nodeFill)
+    .attr('stroke', (d) => (isBeingStepped(d) ? 'orange' : isSelected(d) ? 'black' : isInCycle(d) ? 'red' : 'none'))
     .attr('cx', (d) => xScale(d.x))
     .attr('cy', (d) => yScale(d.y))
     .attr('r', d => radiusScale(d.value) + 'px');
@@ -442,32 +1849,61 @@ function drawGraph(graph: Graph, rootSvg: Selection<SVGSVGElement, unknown, HTML
     .append('circle')
     .attr('class', 'node')
     .attr('r', d => radiusScale(d.value) + 'px')
-    .attr('fill', 'grey')
-    .attr('stroke', (d) => (isSelected(d) ? 'black' : 'none'))
+    .attr('fill', nodeFill)
+    .attr('stroke', (d) => (isBeingStepped(d) ? 'orange' : isSelected(d) ? 'black' : isInCycle(d) ? 'red' : 'none'))
     .attr('cx', (d) => xScale(d.x))
     .attr('cy', (d) => yScale(d.y))
-    .on('click', (_, node) => updateApp({ type: 'selectNode', node }))
-    .call(drag<SVGCircleElement, Node>().on('drag', (evt, node) => {
-        node.x += xScale.invert(evt.dx);
-        node.y += yScale.invert(evt.dy);
-        dragBreaker.enqueue({ evt, node });
-    }));
+    .on('click', (evt, node) => updateApp({ type: 'selectNode', node, additive: evt.shiftKey }))
+    .call(drag<SVGCircleElement, Node>()
+      .on('start', () => {
+        dragCount += 1;
+      })
+      .on('drag', (evt, node) => {
+        // dragging one of the selected nodes moves all of them
+        const moved = isSelected(node) ? appState.data.nodes.filter(isSelected) : [node];
+        for (const movedNode of moved) {
+          movedNode.x += xScale.invert(evt.dx);
+          movedNode.y += yScale.invert(evt.dy);
+        }
+        dragBreaker.enqueue({ node, dragId: dragCount });
+      }));
   nodes.exit().remove();
 
+  const handles = rootSvg
+    .selectAll<SVGCircleElement, Node>('.nodeHandle')
+    .data(graph.nodes, (d: Node) => d.id)
+    .attr('cx', (d) => xScale(d.x) + radiusScale(d.value))
+    .attr('cy', (d) => yScale(d.y));
+  handles
+    .enter()
+    .append('circle')
+    .attr('class', 'nodeHandle')
+    .attr('r', 4)
+    .attr('fill', 'white')
+    .attr('stroke', 'black')
+    .style('cursor', 'crosshair')
+    .attr('cx', (d) => xScale(d.x) + radiusScale(d.value))
+    .attr('cy', (d) => yScale(d.y))
+    .append('title')
+    .text('Drag onto another node to reference it');
+  // re-bound on every draw, so that the drag sees the current graph
+  rootSvg.selectAll<SVGCircleElement, Node>('.nodeHandle').call(connectDrag(graph, rootSvg, (n) => radiusScale(n.value)));
+  handles.exit().remove();
+
   const nodeLabels = rootSvg
     .selectAll<SVGTextElement, Node>('.nodeLabel')
     .data(graph.nodes, (d) => d.id)
-    .text((el) => el.label + ": " + el.value)
+    .text(nodeLabelText)
     .attr('x', (d) => xScale(d.x))
     .attr('y', (d) => yScale(d.y));
   nodeLabels
     .enter()
     .append('text')
     .attr('class', 'nodeLabel')
-    .text((el) => el.label + ": " + el.value)
+    .text(nodeLabelText)
     .attr('x', (d) => xScale(d.x))
     .attr('y', (d) => yScale(d.y))
-    .on('click', (_, node) => updateApp({ type: 'selectNode', node }));
+    .on('click', (evt, node) => updateApp({ type: 'selectNode', node, additive: evt.shiftKey }));
   nodeLabels.exit().remove();
 }
 
@@ -0,0 +1,115 @@
+import { extractLabels, renameLabels, uniqueLabel, updateEdges, type Graph, type Module, type Node } from './graph';
+
+/**********************************************
+ * Modules and module templates
+ *
+ * A module groups nodes, e.g. a household sector, into one box that can be collapsed.
+ * Its ports are derived from the edges that cross the box:
+ *   inputs:  nodes outside that the module reads
+ *   outputs: nodes inside that the rest of the graph reads
+ *
+ * A template is a module taken out of its graph, so that it can be inserted again, any number of times.
+ * Every copy gets its own labels, namespaced by the name of the copy: `"Income"` in copy "Household 2"
+ * becomes `"Household 2.Income"`. References to the template's inputs are kept as they are.
+ **********************************************/
+
+export interface ModuleTemplate {
+  name: string;
+  /** labels without namespace; positions as they were when saved */
+  nodes: Node[];
+  /** labels the template reads but doesn't contain */
+  inputs: string[];
+}
+
+function modulesOf(graph: Graph) {
+  return graph.modules ?? [];
+}
+
+export function getModuleOf(graph: Graph, nodeId: Node['id']): Module | undefined {
+  return modulesOf(graph).find((m) => m.nodeIds.includes(nodeId));
+}
+
+/**
+ * Nodes inside a collapsed module aren't drawn.
+ */
+export function isHidden(graph: Graph, nodeId: Node['id']) {
+  return getModuleOf(graph, nodeId)?.collapsed ?? false;
+}
+
+export function modulePorts(graph: Graph, module: Module): { inputs: Node[]; outputs: Node[] } {
+  const inside = (id: Node['id']) => module.nodeIds.includes(id);
+  const inputIds = new Set(graph.edges.filter((e) => !inside(e.source) && inside(e.target)).map((e) => e.source));
+  const outputIds = new Set(graph.edges.filter((e) => inside(e.source) && !inside(e.target)).map((e) => e.source));
+  return {
+    inputs: graph.nodes.filter((n) => inputIds.has(n.id)),
+    outputs: graph.nodes.filter((n) => outputIds.has(n.id)),
+  };
+}
+
+/**
+ * The part of the graph that is drawn node by node: everything except the contents of collapsed modules.
+ */
+export function visibleGraph(graph: Graph): Graph {
+  const nodes = graph.nodes.filter((n) => !isHidden(graph, n.id));
+  const edges = graph.edges.filter((e) => !isHidden(graph, e.source) && !isHidden(graph, e.target));
+  return { nodes, edges, modules: graph.modules };
+}
+
+/**
+ * Takes `nodeIds` out of the modules they were in; modules left empty are dropped.
+ */
+export function removeFromModules(graph: Graph, nodeIds: Node['id'][]) {
+  if (!graph.modules) return;
+  for (const module of graph.modules) module.nodeIds = module.nodeIds.filter((id) => !nodeIds.includes(id));
+  graph.modules = graph.modules.filter((m) => m.nodeIds.length > 0);
+}
+
+export function createModule(graph: Graph, name: string, nodeIds: Node['id'][]): Module {
+  removeFromModules(graph, nodeIds);
+  const modules = modulesOf(graph);
+  const module: Module = { id: modules.length > 0 ? Math.max(...modules.map((m) => m.id)) + 1 : 1, name, nodeIds, collapsed: false };
+  graph.modules = [...modules, module];
+  return module;
+}
+
+export function ungroupModule(graph: Graph, moduleId: Module['id']) {
+  graph.modules = modulesOf(graph).filter((m) => m.id !== moduleId);
+}
+
+export function toTemplate(graph: Graph, module: Module): ModuleTemplate {
+  const nodes = structuredClone(graph.nodes.filter((n) => module.nodeIds.includes(n.id)));
+  // a module that was itself inserted from a template carries its namespace; the template shouldn't
+  const prefix = `${module.name}.`;
+  const renames = new Map(nodes.filter((n) => n.label.startsWith(prefix)).map((n) => [n.label, n.label.slice(prefix.length)]));
+  for (const node of nodes) {
+    node.valueExpression = renameLabels(node.valueExpression, renames);
+    node.label = renames.get(node.label) ?? node.label;
+    delete node.status;
+  }
+  const own = new Set(nodes.map((n) => n.label));
+  const inputs = Array.from(new Set(nodes.flatMap((n) => extractLabels(n.valueExpression)).filter((label) => !own.has(label))));
+  return { name: module.name, nodes, inputs };
+}
+
+/**
+ * Inserts a copy of `template` as a new module named `namespace`, centered in the view.
+ * Returns the new module; its nodes still need to be evaluated.
+ */
+export function instantiateTemplate(graph: Graph, template: ModuleTemplate, namespace: string): Module {
+  let nextId = graph.nodes.length > 0 ? Math.max(...graph.nodes.map((n) => n.id)) + 1 : 1;
+  const centerX = template.nodes.reduce((sum, n) => sum + n.x, 0) / template.nodes.length;
+  const centerY = template.nodes.reduce((sum, n) => sum + n.y, 0) / template.nodes.length;
+
+  const renames = new Map<string, string>();
+  const copies: Node[] = [];
+  for (const node of template.nodes) {
+    const copy = { ...structuredClone(node), id: nextId++, label: uniqueLabel(graph, `${namespace}.${node.label}`), x: node.x - centerX + 0.5, y: node.y - centerY + 0.5 };
+    renames.set(node.label, copy.label);
+    graph.nodes.push(copy);
+    copies.push(copy);
+  }
+  for (const copy of copies) copy.valueExpression = renameLabels(copy.valueExpression, renames);
+  updateEdges(graph);
+
+  return createModule(graph, namespace, copies.map((c) => c.id));
+}
@@ -0,0 +1,179 @@
+import { evaluateExpression, type Expression } from './expression';
+import { getInputNodes, getNodeByLabel, nodeExpression, topologicalOrder, type Distribution, type Graph, type Node } from './graph';
+
+/**********************************************
+ * Monte Carlo
+ *
+ * Inputs with a `distribution` are drawn at random, N times; every draw evaluates the whole graph once.
+ * What comes out is a distribution of values for every node, summarized as mean, percentiles and a histogram.
+ * Same seed, same graph: same result, so that runs can be compared and reproduced.
+ *
+ * Runs in a Web Worker (see ./montecarlo.worker.ts), so everything here has to work without the DOM.
+ **********************************************/
+
+/**
+ * mulberry32: a small, fast generator of uniform numbers in [0, 1). Good enough for simulation, not for cryptography.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Box-Muller; `1 - random()` keeps the logarithm away from 0 */
+function standardNormal(random: () => number) {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+export function sample(distribution: Distribution, random: () => number): number {
+  switch (distribution.kind) {
+    case 'normal':
+      return distribution.mean + distribution.sd * standardNormal(random);
+    case 'uniform':
+      return distribution.min + (distribution.max - distribution.min) * random();
+    case 'triangular': {
+      // inverse of the cumulative distribution function
+      const { min, mode, max } = distribution;
+      const u = random();
+      const split = max === min ? 0 : (mode - min) / (max - min);
+      return u < split ? min + Math.sqrt(u * (max - min) * (mode - min)) : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case 'lognormal':
+      return Math.exp(distribution.mu + distribution.sigma * standardNormal(random));
+  }
+}
+
+export interface HistogramBin {
+  x0: number;
+  x1: number;
+  count: number;
+}
+
+export interface NodeStatistics {
+  nodeId: Node['id'];
+  mean: number;
+  sd: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  histogram: HistogramBin[];
+  /** draws that gave no number, e.g. a division by zero; left out of everything above */
+  invalid: number;
+}
+
+export interface MonteCarloResult {
+  samples: number;
+  seed: number;
+  nodes: NodeStatistics[];
+  /** nodes in feedback loops can't be evaluated in one pass; they keep their current value */
+  unevaluated: Node['id'][];
+}
+
+/** What main.ts sends to the worker */
+export interface MonteCarloRequest {
+  graph: Graph;
+  samples: number;
+  seed: number;
+}
+
+/** What the worker sends back */
+export type MonteCarloMessage =
+  | { type: 'progress'; done: number }
+  | { type: 'result'; result: MonteCarloResult }
+  | { type: 'error'; message: string };
+
+const histogramBins = 20;
+
+/** a run keeps every draw of every node, i.e. samples × nodes numbers; 100 000 draws of 100 nodes are 80 MB */
+export const maxSamples = 100_000;
+
+/**
+ * Nodes with a distribution that aren't inputs (any more), e.g. because their expression got a reference since.
+ * They follow their parents like any other node; the distribution is kept in case the reference goes again.
+ */
+export function ignoredDistributions(graph: Graph): Node[] {
+  const inputs = getInputNodes(graph);
+  return graph.nodes.filter((n) => n.distribution && !inputs.includes(n));
+}
+
+/** `sorted` must be sorted ascending; interpolates between neighbouring values */
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function histogram(sorted: number[]): HistogramBin[] {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ x0: min, x1: max, count: sorted.length }];
+  const width = (max - min) / histogramBins;
+  const bins = Array.from({ length: histogramBins }, (_, i) => ({ x0: min + i * width, x1: min + (i + 1) * width, count: 0 }));
+  for (const value of sorted) bins[Math.min(Math.floor((value - min) / width), histogramBins - 1)].count += 1;
+  return bins;
+}
+
+function statistics(nodeId: Node['id'], draws: Float64Array): NodeStatistics {
+  const finite = Array.from(draws).filter(Number.isFinite).sort((a, b) => a - b);
+  const mean = finite.reduce((sum, v) => sum + v, 0) / finite.length;
+  const variance = finite.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(finite.length - 1, 1);
+  return {
+    nodeId,
+    mean,
+    sd: Math.sqrt(variance),
+    p5: percentile(finite, 0.05),
+    p50: percentile(finite, 0.5),
+    p95: percentile(finite, 0.95),
+    histogram: histogram(finite),
+    invalid: draws.length - finite.length,
+  };
+}
+
+/**
+ * Draws at most `maxSamples` times; `samples` of the result says how often.
+ * Throws like `evaluateNode`, e.g. a `MissingReferenceError`, if the graph can't be evaluated at all.
+ */
+export function runMonteCarlo(graph: Graph, requested: number, seed: number, onProgress?: (done: number) => void): MonteCarloResult {
+  const samples = Math.min(requested, maxSamples);
+  const random = createRandom(seed);
+  const { order, cyclic } = topologicalOrder(graph);
+  const nodes = new Map(graph.nodes.map((n) => [n.id, n]));
+  const ignored = new Set(ignoredDistributions(graph).map((n) => n.id));
+  const expressions = new Map<Node['id'], Expression>(order.map((id) => [id, nodeExpression(graph, nodes.get(id)!)]));
+  const idOf = new Map(graph.nodes.map((n) => [n.label, n.id]));
+  const draws = new Map(graph.nodes.map((n) => [n.id, new Float64Array(samples)]));
+
+  const values = new Map<Node['id'], number>();
+  const lookup = (label: string) => {
+    const id = idOf.get(label);
+    // throws the usual MissingReferenceError
+    return id === undefined ? getNodeByLabel(graph, label).value : values.get(id)!;
+  };
+  // `prev(...)` reads the values from before the run, as everywhere outside the simulation
+  const previous = { lookup: (label: string) => getNodeByLabel(graph, label).value };
+
+  for (let i = 0; i < samples; i++) {
+    for (const node of graph.nodes) values.set(node.id, node.value);
+    for (const id of order) {
+      const distribution = ignored.has(id) ? undefined : nodes.get(id)!.distribution;
+      values.set(id, distribution ? sample(distribution, random) : evaluateExpression(expressions.get(id)!, { lookup, previous }));
+    }
+    for (const [id, value] of values) draws.get(id)![i] = value;
+    if (onProgress && (i + 1) % 500 === 0) onProgress(i + 1);
+  }
+
+  return {
+    samples,
+    seed,
+    nodes: graph.nodes.map((n) => statistics(n.id, draws.get(n.id)!)),
+    unevaluated: cyclic,
+  };
+}
@@ -0,0 +1,20 @@
+import { runMonteCarlo, type MonteCarloMessage, type MonteCarloRequest } from './montecarlo';
+
+/**********************************************
+ * Runs a Monte Carlo off the main thread, so that the page stays responsive.
+ * One request per worker; main.ts starts a new worker for every run and terminates it to cancel.
+ **********************************************/
+
+function send(message: MonteCarloMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { graph, samples, seed } = event.data;
+  try {
+    const result = runMonteCarlo(graph, samples, seed, (done) => send({ type: 'progress', done }));
+    send({ type: 'result', result });
+  } catch (error) {
+    send({ type: 'error', message: (error as Error).message });
+  }
+};
@@ -0,0 +1,78 @@
+import { recalculate, solveGraph, topologicalOrder, type Graph, type Node, type Scenario } from './graph';
+import { currentValues, type StepValues } from './simulation';
+
+/**********************************************
+ * Scenarios
+ *
+ * The graph as its expressions define it is the baseline.
+ * A scenario overrides some input nodes with fixed values, e.g. "A" = 1.5 instead of 1,
+ * without touching their `valueExpression`; everything else is evaluated from there.
+ * Like a simulation step, the values of the active scenario are written into the graph to show them.
+ **********************************************/
+
+function scenariosOf(graph: Graph) {
+  return graph.scenarios ?? [];
+}
+
+export function getScenario(graph: Graph, id: Scenario['id'] | undefined): Scenario | undefined {
+  return scenariosOf(graph).find((s) => s.id === id);
+}
+
+/**
+ * Every node's value under `scenario`; under the baseline if `scenario` is `undefined`.
+ * Evaluates a copy, so `graph` stays as it is.
+ */
+export function scenarioValues(graph: Graph, scenario: Scenario | undefined): StepValues {
+  const copy = structuredClone(graph);
+  for (const { nodeId, value } of scenario?.overrides ?? []) {
+    const node = copy.nodes.find((n) => n.id === nodeId);
+    if (node) node.valueExpression = `${value}`;
+  }
+  const { order, cyclic } = topologicalOrder(copy);
+  recalculate(copy, order);
+  // nodes in feedback loops only get new values if the loop settles
+  if (cyclic.length > 0) solveGraph(copy, { tolerance: 1e-9, maxIterations: 1000 });
+  return currentValues(copy);
+}
+
+export function createScenario(graph: Graph, name: string): Scenario {
+  const scenarios = scenariosOf(graph);
+  const scenario: Scenario = { id: scenarios.length > 0 ? Math.max(...scenarios.map((s) => s.id)) + 1 : 1, name, overrides: [] };
+  graph.scenarios = [...scenarios, scenario];
+  return scenario;
+}
+
+export function deleteScenario(graph: Graph, id: Scenario['id']) {
+  graph.scenarios = scenariosOf(graph).filter((s) => s.id !== id);
+}
+
+/**
+ * Sets (or with `value` undefined, removes) the override of one node.
+ */
+export function setOverride(scenario: Scenario, nodeId: Node['id'], value: number | undefined) {
+  scenario.overrides = scenario.overrides.filter((o) => o.nodeId !== nodeId);
+  if (value !== undefined) scenario.overrides.push({ nodeId, value });
+}
+
+export function removeFromScenarios(graph: Graph, nodeIds: Node['id'][]) {
+  for (const scenario of scenariosOf(graph)) scenario.overrides = scenario.overrides.filter((o) => !nodeIds.includes(o.nodeId));
+}
+
+export interface ValueDelta {
+  nodeId: Node['id'];
+  from: number;
+  to: number;
+  absolute: number;
+  /** `undefined` if `from` is 0 */
+  percent: number | undefined;
+}
+
+export function compareValues(graph: Graph, from: StepValues, to: StepValues): ValueDelta[] {
+  return graph.nodes.map(({ id }) => ({
+    nodeId: id,
+    from: from[id],
+    to: to[id],
+    absolute: to[id] - from[id],
+    percent: from[id] === 0 ? undefined : ((to[id] - from[id]) / Math.abs(from[id])) * 100,
+  }));
+}
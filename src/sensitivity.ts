@@ -0,0 +1,57 @@
+import { evaluateNode, getDownstream, getInputNodes, getNodeById, type Graph, type Node } from './graph';
+
+/**********************************************
+ * Sensitivity analysis
+ *
+ * Which inputs drive a target node? Every input upstream of the target is moved down and up by `percent`,
+ * one at a time, with all other inputs at their current values; the target is evaluated each time.
+ * The elasticity is the central difference in percent: the target's % change per 1% change of the input.
+ **********************************************/
+
+export interface InputSensitivity {
+  nodeId: Node['id'];
+  inputValue: number;
+  /** target value with the input moved down by `percent` */
+  low: number;
+  /** target value with the input moved up by `percent` */
+  high: number;
+  /** `undefined` where it can't be computed: the target is 0, or the input is 0 so moving it by a percentage doesn't move it */
+  elasticity: number | undefined;
+}
+
+export interface SensitivityResult {
+  targetId: Node['id'];
+  percent: number;
+  targetValue: number;
+  /** largest swing `|high - low|` first */
+  inputs: InputSensitivity[];
+}
+
+/**
+ * Throws like `evaluateNode`, e.g. a `CycleError` if the target is part of a feedback loop.
+ */
+export function analyseSensitivity(graph: Graph, targetId: Node['id'], percent: number): SensitivityResult {
+  const copy = structuredClone(graph);
+  const inputs = getInputNodes(copy).filter((n) => n.id !== targetId && getDownstream(copy, [n.id]).has(targetId));
+  // inputs are evaluated at the values shown, e.g. those of the active scenario
+  for (const input of getInputNodes(copy)) input.valueExpression = `${input.value}`;
+  const target = getNodeById(copy, targetId);
+  const evaluateTarget = () => evaluateNode(target, copy);
+  const targetValue = evaluateTarget();
+
+  const sensitivities = inputs.map((input): InputSensitivity => {
+    const inputValue = input.value;
+    const targetWith = (factor: number) => {
+      input.valueExpression = `${inputValue * factor}`;
+      return evaluateTarget();
+    };
+    const low = targetWith(1 - percent / 100);
+    const high = targetWith(1 + percent / 100);
+    input.valueExpression = `${inputValue}`;
+    const elasticity = targetValue === 0 || inputValue === 0 ? undefined : (high - low) / targetValue / ((2 * percent) / 100);
+    return { nodeId: input.id, inputValue, low, high, elasticity };
+  });
+
+  sensitivities.sort((a, b) => Math.abs(b.high - b.low) - Math.abs(a.high - a.low));
+  return { targetId, percent, targetValue, inputs: sensitivities };
+}
@@ -0,0 +1,50 @@
+import { evaluateExpression } from './expression';
+import { CycleError, findCycles, getNodeById, getNodeByLabel, nodeExpression, topologicalOrder, type Graph, type Node } from './graph';
+
+/**********************************************
+ * Time-stepped simulation
+ *
+ * Step t is computed from step t-1:
+ * every node is re-evaluated once, in dependency order.
+ * Within a step, labels read the value of step t;
+ * inside `prev(...)` they read the value of step t-1.
+ * Stocks are written as `prev("Capital") + "Investment" - "Depreciation"`.
+ **********************************************/
+
+/** Value of every node at one time step, by node id */
+export type StepValues = Record<Node['id'], number>;
+
+export function currentValues(graph: Graph): StepValues {
+  const values: StepValues = {};
+  for (const node of graph.nodes) values[node.id] = node.value;
+  return values;
+}
+
+export function simulateStep(graph: Graph, previousValues: StepValues): StepValues {
+  const [cycle] = findCycles(graph);
+  if (cycle) {
+    const labels = cycle.map((id) => getNodeById(graph, id).label);
+    throw new CycleError([...labels, labels[0]]);
+  }
+  const { order } = topologicalOrder(graph);
+
+  const idOf = (label: string) => getNodeByLabel(graph, label).id;
+  const values: StepValues = { ...previousValues };
+  for (const id of order) {
+    const expression = nodeExpression(graph, getNodeById(graph, id));
+    values[id] = evaluateExpression(expression, {
+      lookup: (label) => values[idOf(label)],
+      previous: { lookup: (label) => previousValues[idOf(label)] },
+    });
+  }
+  return values;
+}
+
+/**
+ * Writes the values of one recorded step back into the graph, so that `drawGraph` shows that step.
+ */
+export function applyStep(graph: Graph, values: StepValues) {
+  for (const node of graph.nodes) {
+    if (node.id in values) node.value = values[node.id];
+  }
+}
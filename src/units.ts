@@ -0,0 +1,282 @@
+import { ExpressionError, type Expression } from './expression';
+import { builtinFunctions, type FunctionRegistry } from './functions';
+
+/**********************************************
+ * Units and dimensional analysis for Node.unit
+ *
+ * A unit is written like `EUR`, `bn EUR`, `kEUR`, `people`, `EUR/person/year`, `m^2` or `%`:
+ *   - names are dimensions, e.g. `EUR`, `people`, `year`; anything not known is a dimension of its own
+ *   - `*` or a space multiplies, `/` divides by the next term, `^2` raises a term to a power
+ *   - scales: `k` (10^3), `M` (10^6), `bn` (10^9), on their own like `M EUR`; written together only with
+ *     the names in `prefixableUnits`, like `kEUR`, so that `MXN` stays Mexican pesos
+ *   - `%` is dimensionless with a scale of 10^-2
+ *
+ * Values are always shown and stored in the node's own unit: "GDP" in `bn EUR` with value 2 is 2 bn EUR.
+ * `applyUnits` checks an expression and rewrites it so that it computes in the node's unit:
+ * with "GDP" in `bn EUR` and "Growth" in `%`, a node in `M EUR` computing `"GDP" * "Growth"`
+ * evaluates `"GDP" * "Growth" * 10`.
+ *
+ * Plain numbers and nodes without a unit have no unit; they take on whatever unit they're combined with.
+ * So `"Revenue" - 100` subtracts 100 of the revenue's unit, and `"Cost" * 1.1` stays a cost.
+ * Dimensionless sums work with fractions: `1 + "Growth"` with "Growth" at 5 % is 1.05.
+ **********************************************/
+
+export interface Unit {
+  /** power of ten: 3 for `k`, -2 for `%` */
+  scale: number;
+  /** exponent by dimension name, e.g. `{ EUR: 1, year: -1 }`; dimensions with exponent 0 are left out */
+  dimensions: Record<string, number>;
+}
+
+export class UnitError extends ExpressionError {
+  constructor(message: string, position: number, source?: string) {
+    super(message, position, source);
+    this.name = 'UnitError';
+  }
+}
+
+const scaleWords: Record<string, number> = { k: 3, M: 6, bn: 9 };
+
+/** names a scale can be written in front of, like `MEUR`; any other name starting with `k`, `M` or `bn` is a name of its own */
+const prefixableUnits = new Set(['EUR', 'USD', 'GBP', 'CHF', 'JPY', 'CNY']);
+
+/**
+ * `undefined` for an empty unit. Throws a `UnitError` for anything that doesn't look like a unit.
+ */
+export function parseUnit(text: string | undefined): Unit | undefined {
+  if (text === undefined || text.trim() === '') return undefined;
+  const unit: Unit = { scale: 0, dimensions: {} };
+  let sign = 1;
+  let expectTerm = true;
+  for (const match of text.matchAll(/[*/]|[^\s*/]+/g)) {
+    const token = match[0];
+    const position = match.index;
+    if (token === '*' || token === '/') {
+      if (expectTerm) throw new UnitError(`Unexpected '${token}'`, position, text);
+      sign = token === '/' ? -1 : 1;
+      expectTerm = true;
+      continue;
+    }
+
+    const term = /^(?<body>[^^]+)(\^(?<exponent>-?\d+))?$/.exec(token);
+    if (!term) throw new UnitError(`Invalid unit '${token}'`, position, text);
+    const exponent = sign * (term.groups!.exponent === undefined ? 1 : parseInt(term.groups!.exponent));
+    const body = term.groups!.body;
+    const prefixed = /^(?<prefix>k|M|bn)(?<name>.+)$/.exec(body);
+    if (body === '%') {
+      unit.scale += -2 * exponent;
+    } else if (body in scaleWords) {
+      unit.scale += scaleWords[body] * exponent;
+    } else if (prefixed && prefixableUnits.has(prefixed.groups!.name)) {
+      unit.scale += scaleWords[prefixed.groups!.prefix] * exponent;
+      addDimension(unit, prefixed.groups!.name, exponent, position, text);
+    } else {
+      addDimension(unit, body, exponent, position, text);
+    }
+    // a space multiplies, like in `bn EUR`
+    sign = 1;
+    expectTerm = false;
+  }
+  if (expectTerm) throw new UnitError('Unit must not end with an operator', text.length, text);
+  return unit;
+}
+
+function addDimension(unit: Unit, name: string, exponent: number, position: number, text: string) {
+  if (!/^[\p{L}\p{Sc}_][\p{L}\p{Sc}\p{N}_]*$/u.test(name)) throw new UnitError(`Invalid unit '${name}'`, position, text);
+  const total = (unit.dimensions[name] ?? 0) + exponent;
+  if (total === 0) delete unit.dimensions[name];
+  else unit.dimensions[name] = total;
+}
+
+const scaleNames: Record<number, string> = { 3: 'k', 6: 'M', 9: 'bn', [-2]: '%' };
+
+/**
+ * For messages, e.g. `bn EUR/year`. Not necessarily how the unit was written.
+ */
+export function formatUnit(unit: Unit | undefined): string {
+  if (!unit) return 'no unit';
+  const term = (name: string, exponent: number) => (exponent === 1 ? name : `${name}^${exponent}`);
+  const entries = Object.entries(unit.dimensions).sort(([a], [b]) => a.localeCompare(b));
+  const numerator = entries.filter(([, e]) => e > 0).map(([name, e]) => term(name, e));
+  const denominator = entries.filter(([, e]) => e < 0).map(([name, e]) => `/${term(name, -e)}`);
+  const dimensions = [numerator.join('*') || (denominator.length > 0 ? '1' : ''), ...denominator].join('');
+  const scale = unit.scale === 0 ? '' : scaleNames[unit.scale] ?? `10^${unit.scale}`;
+  return [scale, dimensions].filter((part) => part !== '').join(' ') || 'dimensionless';
+}
+
+function sameDimensions(a: Unit, b: Unit) {
+  const names = new Set([...Object.keys(a.dimensions), ...Object.keys(b.dimensions)]);
+  return Array.from(names).every((name) => a.dimensions[name] === b.dimensions[name]);
+}
+
+function isDimensionless(unit: Unit) {
+  return Object.keys(unit.dimensions).length === 0;
+}
+
+function combine(a: Unit, b: Unit, sign: 1 | -1): Unit {
+  const unit: Unit = { scale: a.scale + sign * b.scale, dimensions: { ...a.dimensions } };
+  for (const [name, exponent] of Object.entries(b.dimensions)) {
+    const total = (unit.dimensions[name] ?? 0) + sign * exponent;
+    if (total === 0) delete unit.dimensions[name];
+    else unit.dimensions[name] = total;
+  }
+  return unit;
+}
+
+function power(unit: Unit, exponent: number): Unit {
+  const dimensions = Object.fromEntries(Object.entries(unit.dimensions).map(([name, e]) => [name, e * exponent]));
+  return { scale: unit.scale * exponent, dimensions };
+}
+
+/**
+ * Multiplies by 10^`scale`. Divides for negative scales, because dividing by 100 is exact where multiplying by 0.01 is not.
+ */
+function rescale(expression: Expression, scale: number): Expression {
+  if (scale === 0) return expression;
+  const factor: Expression = { type: 'number', value: Math.pow(10, Math.abs(scale)), position: expression.position };
+  return { type: 'binary', operator: scale > 0 ? '*' : '/', left: expression, right: factor, position: expression.position };
+}
+
+interface Converted {
+  expression: Expression;
+  /** `undefined`: no unit, like a plain number */
+  unit: Unit | undefined;
+}
+
+/**
+ * Operands that must be of one unit, like those of `+`: converts them all to the scale of the first one that has a unit,
+ * or to scale 0 if they're dimensionless. Operands without a unit are left as they are.
+ */
+function unify(operands: Converted[], position: number, verb: string): { operands: Converted[]; unit: Unit | undefined } {
+  const withUnit = operands.filter((o) => o.unit !== undefined).map((o) => o.unit!);
+  if (withUnit.length === 0) return { operands, unit: undefined };
+  const [first] = withUnit;
+  const mismatch = withUnit.find((unit) => !sameDimensions(unit, first));
+  if (mismatch) throw new UnitError(`Can't ${verb} ${formatUnit(first)} and ${formatUnit(mismatch)}`, position);
+  const unit: Unit = { scale: isDimensionless(first) ? 0 : first.scale, dimensions: first.dimensions };
+  return {
+    operands: operands.map((o) => (o.unit ? { expression: rescale(o.expression, o.unit.scale - unit.scale), unit } : o)),
+    unit,
+  };
+}
+
+/** Converts a dimensionless operand to scale 0, i.e. `%` to a fraction */
+function toFraction(operand: Converted, position: number, what: string): Converted {
+  if (!operand.unit) return operand;
+  if (!isDimensionless(operand.unit)) throw new UnitError(`${what} must be dimensionless, got ${formatUnit(operand.unit)}`, position);
+  return { expression: rescale(operand.expression, operand.unit.scale), unit: { scale: 0, dimensions: {} } };
+}
+
+/** The value of a constant exponent like `2` or `-1`; `undefined` for anything else */
+function constantExponent(expression: Expression): number | undefined {
+  if (expression.type === 'number') return expression.value;
+  if (expression.type === 'unary' && expression.operand.type === 'number') return -expression.operand.value;
+  return undefined;
+}
+
+function convert(expression: Expression, unitOf: (label: string) => Unit | undefined, functions: FunctionRegistry): Converted {
+  switch (expression.type) {
+    case 'number':
+      return { expression, unit: undefined };
+
+    case 'label':
+      return { expression, unit: unitOf(expression.label) };
+
+    case 'unary': {
+      const operand = convert(expression.operand, unitOf, functions);
+      return { expression: { ...expression, operand: operand.expression }, unit: operand.unit };
+    }
+
+    case 'binary': {
+      const left = convert(expression.left, unitOf, functions);
+      const right = convert(expression.right, unitOf, functions);
+      const rebuild = (l: Converted, r: Converted, unit: Unit | undefined) => ({
+        expression: { ...expression, left: l.expression, right: r.expression },
+        unit,
+      });
+      switch (expression.operator) {
+        case '+':
+        case '-': {
+          const { operands, unit } = unify([left, right], expression.position, expression.operator === '+' ? 'add' : 'subtract');
+          return rebuild(operands[0], operands[1], unit);
+        }
+        case '*':
+        case '/':
+          if (!left.unit && !right.unit) return rebuild(left, right, undefined);
+          return rebuild(left, right, combine(left.unit ?? { scale: 0, dimensions: {} }, right.unit ?? { scale: 0, dimensions: {} }, expression.operator === '*' ? 1 : -1));
+        case '^': {
+          const exponent = toFraction(right, expression.position, 'Exponent');
+          if (!left.unit) return rebuild(left, exponent, undefined);
+          const constant = constantExponent(expression.right);
+          if (constant !== undefined) return rebuild(left, exponent, power(left.unit, constant));
+          const base = toFraction(left, expression.position, 'Base of a variable power');
+          return rebuild(base, exponent, base.unit);
+        }
+        default: {
+          // comparisons compare like with like and give 1 or 0
+          const { operands } = unify([left, right], expression.position, 'compare');
+          return rebuild(operands[0], operands[1], undefined);
+        }
+      }
+    }
+
+    case 'call': {
+      const args = expression.args.map((arg) => convert(arg, unitOf, functions));
+      const rebuild = (converted: Converted[], unit: Unit | undefined) => ({
+        expression: { ...expression, args: converted.map((c) => c.expression) },
+        unit,
+      });
+      const verb = `use ${expression.name}() on`;
+      switch (functions.get(expression.name)?.units) {
+        case 'same': {
+          const { operands, unit } = unify(args, expression.position, verb);
+          return rebuild(operands, unit);
+        }
+        case 'first':
+          return rebuild(args, args[0].unit);
+        case 'dimensionless': {
+          const fractions = args.map((arg) => toFraction(arg, expression.position, `Argument of ${expression.name}()`));
+          return rebuild(fractions, fractions.some((f) => f.unit) ? { scale: 0, dimensions: {} } : undefined);
+        }
+        case 'squareRoot': {
+          const [{ expression: arg, unit }] = args;
+          if (!unit) return rebuild(args, undefined);
+          if (Object.values(unit.dimensions).some((e) => e % 2 !== 0)) {
+            throw new UnitError(`Can't take the square root of ${formatUnit(unit)}`, expression.position);
+          }
+          // an odd scale like `k` can't be halved into a power of ten; convert to scale 0 first
+          if (unit.scale % 2 === 0) return rebuild(args, power(unit, 0.5));
+          return rebuild([{ expression: rescale(arg, unit.scale), unit }], power({ ...unit, scale: 0 }, 0.5));
+        }
+        case 'branches': {
+          const [condition, ...branches] = args;
+          const { operands, unit } = unify(branches, expression.position, verb);
+          return rebuild([condition, ...operands], unit);
+        }
+        case 'table': {
+          // x, x1, y1, x2, y2, ...: the x values are alike, and so are the y values
+          const xs = unify(args.filter((_, i) => i === 0 || i % 2 === 1), expression.position, verb);
+          const ys = unify(args.filter((_, i) => i > 0 && i % 2 === 0), expression.position, verb);
+          const merged = args.map((_, i) => (i === 0 ? xs.operands[0] : i % 2 === 1 ? xs.operands[(i + 1) / 2] : ys.operands[i / 2 - 1]));
+          return rebuild(merged, ys.unit);
+        }
+        default:
+          return rebuild(args, undefined);
+      }
+    }
+  }
+}
+
+/**
+ * Checks that `expression` adds, compares and returns like units, and returns it rewritten to compute in `unit`.
+ * `unitOf` gives the unit of a referenced node; `undefined` if it has none (or doesn't exist, which evaluating reports).
+ * Throws a `UnitError` where units don't fit, e.g. for `"GDP" + "Unemployment rate"`.
+ */
+export function applyUnits(expression: Expression, unitOf: (label: string) => Unit | undefined, unit: Unit | undefined, functions = builtinFunctions): Expression {
+  const converted = convert(expression, unitOf, functions);
+  if (!unit || !converted.unit) return converted.expression;
+  if (!sameDimensions(converted.unit, unit)) {
+    throw new UnitError(`Result is in ${formatUnit(converted.unit)}, but the node's unit is ${formatUnit(unit)}`, 0);
+  }
+  return rescale(converted.expression, converted.unit.scale - unit.scale);
+}